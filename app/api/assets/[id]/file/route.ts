@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { saveUpload, deleteUpload } from '@/lib/uploads'
+import { replaceAssetFile } from '@/lib/asset-versions'
+import { assetMediaUrls, startMediaProcessor } from '@/lib/asset-media'
+import { removeUnusedFiles } from '@/lib/storage-cleanup'
+
+// POST replace the asset's file, keeping the previous file as a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const existing = await prisma.asset.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const format = file.name.split('.').pop()?.toLowerCase() || 'unknown'
+    const { url, contentHash } = await saveUpload(file, format)
+
+    const asset = await prisma.$transaction(tx =>
+      replaceAssetFile(tx, id, {
+        filename: file.name,
+        url,
+        format,
+        size: file.size,
+        contentHash,
+      })
+    ).catch(async error => {
+      // Nothing points at the new file if the asset wasn't updated
+      await deleteUpload(url).catch(() => {})
+      throw error
+    })
+
+    // The old file stays as a version, its previews are generated again
+    await removeUnusedFiles(assetMediaUrls(existing))
+    startMediaProcessor()
+
+    return NextResponse.json(asset)
+  } catch (error) {
+    console.error('Error replacing asset file:', error)
+    return NextResponse.json({ error: 'Failed to replace asset file' }, { status: 500 })
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { parseTagList, connectTags } from '@/lib/tags'
+import { assetFileUrls, removeUnusedFiles } from '@/lib/storage-cleanup'
+import { deleteAssets } from '@/lib/asset-batch'
 
 // GET single asset
 export async function GET(
@@ -9,7 +12,8 @@ export async function GET(
   try {
     const { id } = await params
     const asset = await prisma.asset.findUnique({
-      where: { id }
+      where: { id },
+      include: { tags: true },
     })
 
     if (!asset) {
@@ -32,6 +36,8 @@ export async function PUT(
     const { id } = await params
     const body = await request.json()
     const { name, oem, screenType, assetType, description } = body
+    // Tags are replaced as a whole when given, left alone otherwise
+    const tags = body.tags !== undefined ? parseTagList(body.tags) : null
 
     const asset = await prisma.asset.update({
       where: { id },
@@ -41,7 +47,9 @@ export async function PUT(
         screenType,
         assetType,
         description,
-      }
+        tags: tags ? { set: [], connectOrCreate: connectTags(tags) } : undefined,
+      },
+      include: { tags: true },
     })
 
     return NextResponse.json(asset)
@@ -51,17 +59,23 @@ export async function PUT(
   }
 }
 
-// DELETE asset
+// DELETE asset, removing its stored files and recording a new version of flows that showed it
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params
-    await prisma.asset.delete({
-      where: { id }
+    const { count, urls } = await prisma.$transaction(async tx => {
+      const urls = await assetFileUrls(tx, [id])
+      return { count: await deleteAssets(tx, [id]), urls }
     })
 
+    if (count === 0) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+    await removeUnusedFiles(urls)
+
     return NextResponse.json({ message: 'Asset deleted successfully' })
   } catch (error) {
     console.error('Error deleting asset:', error)
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findSimilarAssets, parseMinSimilarity } from '@/lib/similarity'
+import { countUnprocessedAssets, startMediaProcessor } from '@/lib/asset-media'
+
+// GET assets that look like this one, most similar first, via ?min=0.9
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const minSimilarity = parseMinSimilarity(request.nextUrl.searchParams.get('min'))
+
+    const similar = await findSimilarAssets(id, minSimilarity)
+    if (!similar) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    // Results are incomplete until every asset has been hashed
+    const pending = await countUnprocessedAssets()
+    if (pending > 0) startMediaProcessor()
+
+    return NextResponse.json({ assets: similar, minSimilarity, pending })
+  } catch (error) {
+    console.error('Error finding similar assets:', error)
+    return NextResponse.json({ error: 'Failed to find similar assets' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { revertAssetFile } from '@/lib/asset-versions'
+import { parseVersionNumber } from '@/lib/flow-versions'
+import { assetMediaUrls, startMediaProcessor } from '@/lib/asset-media'
+import { removeUnusedFiles } from '@/lib/storage-cleanup'
+
+// POST make an earlier file the asset's current file again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params
+    const versionNumber = parseVersionNumber(version)
+
+    if (versionNumber === null) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 })
+    }
+
+    const previous = await prisma.asset.findUnique({
+      where: { id },
+      select: { thumbnailUrl: true, thumbnailSmallUrl: true, posterUrl: true },
+    })
+    const asset = await prisma.$transaction(tx => revertAssetFile(tx, id, versionNumber))
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+    await removeUnusedFiles(assetMediaUrls(previous ?? {}))
+    startMediaProcessor()
+
+    return NextResponse.json(asset)
+  } catch (error) {
+    console.error('Error reverting asset file:', error)
+    return NextResponse.json({ error: 'Failed to revert asset file' }, { status: 500 })
+  }
+}
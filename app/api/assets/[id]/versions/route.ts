@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+// GET previous files of an asset, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const versions = await prisma.assetVersion.findMany({
+      where: { assetId: id },
+      orderBy: { version: 'desc' },
+    })
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching asset versions:', error)
+    return NextResponse.json({ error: 'Failed to fetch asset versions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseAssetIds, MAX_SELECTION_SIZE } from '@/lib/asset-batch'
+import { nameZipEntries, streamZipExport, zipDisposition } from '@/lib/zip-export'
+
+// POST download several assets as one ZIP with a manifest
+// Expects form data with the ids as "ids=a,b,c", too many for a query string
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData().catch(() => null)
+    const raw = formData?.get('ids')
+    const ids = parseAssetIds(typeof raw === 'string' ? raw.split(',').filter(Boolean) : undefined)
+
+    if (!ids) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_SELECTION_SIZE} assets` },
+        { status: 400 }
+      )
+    }
+
+    const assets = await prisma.asset.findMany({
+      where: { id: { in: ids } },
+      include: { tags: true },
+    })
+
+    if (assets.length === 0) {
+      return NextResponse.json({ error: 'Assets not found' }, { status: 404 })
+    }
+
+    // Keep the order the ids were given in, which is the order they're shown in
+    const byId = new Map(assets.map(asset => [asset.id, asset]))
+    const entries = nameZipEntries(
+      ids.flatMap(id => byId.get(id) ?? []).map(asset => ({ asset }))
+    )
+    const name = `assets-${new Date().toISOString().slice(0, 10)}`
+
+    return new NextResponse(streamZipExport({ name }, entries), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': zipDisposition(name),
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading assets:', error)
+    return NextResponse.json({ error: 'Failed to download assets' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseAssetIds, appendAssetsToFlow, MAX_SELECTION_SIZE } from '@/lib/asset-batch'
+
+// POST append assets to the end of an existing flow
+// Body: { ids, flowId }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ids = parseAssetIds(body.ids)
+
+    if (!ids) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_SELECTION_SIZE} assets` },
+        { status: 400 }
+      )
+    }
+
+    const flow = typeof body.flowId === 'string'
+      ? await prisma.flow.findUnique({ where: { id: body.flowId }, select: { id: true } })
+      : null
+
+    if (!flow) {
+      return NextResponse.json({ error: 'Flow not found' }, { status: 404 })
+    }
+
+    const count = await prisma.$transaction(tx => appendAssetsToFlow(tx, flow.id, ids))
+
+    return NextResponse.json({ added: count })
+  } catch (error) {
+    console.error('Error adding assets to flow:', error)
+    return NextResponse.json({ error: 'Failed to add assets to flow' }, { status: 500 })
+  }
+}
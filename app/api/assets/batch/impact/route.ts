@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseAssetIds, getDeleteImpact, MAX_SELECTION_SIZE } from '@/lib/asset-batch'
+
+// POST preview which flows and collections deleting the assets would affect
+// Body: { ids }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ids = parseAssetIds(body.ids)
+
+    if (!ids) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_SELECTION_SIZE} assets` },
+        { status: 400 }
+      )
+    }
+
+    const impact = await getDeleteImpact(prisma, ids)
+
+    return NextResponse.json(impact)
+  } catch (error) {
+    console.error('Error checking delete impact:', error)
+    return NextResponse.json({ error: 'Failed to check affected flows' }, { status: 500 })
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseTagList, connectTags } from '@/lib/tags'
+import {
+  parseAssetIds,
+  updateAssets,
+  deleteAssets,
+  MAX_SELECTION_SIZE,
+  BATCH_TRANSACTION_OPTIONS,
+} from '@/lib/asset-batch'
+import { assetFileUrls, removeUnusedFiles } from '@/lib/storage-cleanup'
+import { startMediaProcessor } from '@/lib/asset-media'
+import { hashStoredUpload } from '@/lib/uploads'
+
+const MAX_BATCH_SIZE = 100
+
+interface BatchAssetInput {
+  name: string
+  filename: string
+  url: string
+  oem: string
+  screenType: string
+  assetType: string
+  description?: string | null
+  format: string
+  size: number
+  tags?: unknown
+}
+
+function isBatchAssetInput(value: unknown): value is BatchAssetInput {
+  if (!value || typeof value !== 'object') return false
+  const input = value as Record<string, unknown>
+  return ['name', 'filename', 'url', 'oem', 'screenType', 'assetType', 'format']
+    .every(field => typeof input[field] === 'string' && input[field] !== '')
+    && typeof input.size === 'number'
+}
+
+// POST create many assets at once, all or nothing
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const inputs: unknown[] = Array.isArray(body.assets) ? body.assets : []
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'No assets provided' }, { status: 400 })
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} assets can be created at once` },
+        { status: 400 }
+      )
+    }
+
+    const invalid = inputs.findIndex(input => !isBatchAssetInput(input))
+    if (invalid !== -1) {
+      return NextResponse.json(
+        { error: `Asset ${invalid + 1} is missing a name, file, OEM, screen type or asset type` },
+        { status: 400 }
+      )
+    }
+
+    // One at a time, each file is read in full to hash it
+    const hashes: Array<string | null> = []
+    for (const input of inputs as BatchAssetInput[]) {
+      hashes.push(await hashStoredUpload(input.url))
+    }
+    const unstored = hashes.indexOf(null)
+    if (unstored !== -1) {
+      return NextResponse.json(
+        { error: `Asset ${unstored + 1}'s file was not found in storage, upload it first` },
+        { status: 400 }
+      )
+    }
+
+    const assets = await prisma.$transaction(
+      (inputs as BatchAssetInput[]).map((input, index) =>
+        prisma.asset.create({
+          data: {
+            name: input.name,
+            filename: input.filename,
+            url: input.url,
+            oem: input.oem,
+            screenType: input.screenType,
+            assetType: input.assetType,
+            description: input.description || null,
+            format: input.format,
+            size: input.size,
+            contentHash: hashes[index],
+            tags: { connectOrCreate: connectTags(parseTagList(input.tags)) },
+          },
+          include: { tags: true },
+        })
+      )
+    )
+
+    startMediaProcessor()
+
+    return NextResponse.json({ assets }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating assets:', error)
+    return NextResponse.json({ error: 'Failed to create assets' }, { status: 500 })
+  }
+}
+
+// PATCH update the same fields on many assets
+// Body: { ids, oem?, screenType?, assetType?, addTags?, removeTags? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ids = parseAssetIds(body.ids)
+
+    if (!ids) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_SELECTION_SIZE} assets` },
+        { status: 400 }
+      )
+    }
+
+    // Blank values mean "leave as is"
+    const field = (value: unknown) => typeof value === 'string' && value ? value : undefined
+
+    const count = await prisma.$transaction(tx => updateAssets(tx, ids, {
+      oem: field(body.oem),
+      screenType: field(body.screenType),
+      assetType: field(body.assetType),
+      addTags: parseTagList(body.addTags),
+      removeTags: parseTagList(body.removeTags),
+    }), BATCH_TRANSACTION_OPTIONS)
+
+    return NextResponse.json({ updated: count })
+  } catch (error) {
+    console.error('Error updating assets:', error)
+    return NextResponse.json({ error: 'Failed to update assets' }, { status: 500 })
+  }
+}
+
+// DELETE many assets, along with their stored files, flow frames and collection items
+// Body: { ids }
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ids = parseAssetIds(body.ids)
+
+    if (!ids) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_SELECTION_SIZE} assets` },
+        { status: 400 }
+      )
+    }
+
+    const { count, urls } = await prisma.$transaction(async tx => {
+      const urls = await assetFileUrls(tx, ids)
+      return { count: await deleteAssets(tx, ids), urls }
+    }, BATCH_TRANSACTION_OPTIONS)
+    await removeUnusedFiles(urls)
+
+    return NextResponse.json({ deleted: count })
+  } catch (error) {
+    console.error('Error deleting assets:', error)
+    return NextResponse.json({ error: 'Failed to delete assets' }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findDuplicateGroups, parseMinSimilarity } from '@/lib/similarity'
+import { countUnprocessedAssets, startMediaProcessor } from '@/lib/asset-media'
+
+// GET groups of near-identical assets across the library, via ?min=0.9
+export async function GET(request: NextRequest) {
+  try {
+    const minSimilarity = parseMinSimilarity(request.nextUrl.searchParams.get('min'))
+    const groups = await findDuplicateGroups(minSimilarity)
+
+    // Results are incomplete until every asset has been hashed
+    const pending = await countUnprocessedAssets()
+    if (pending > 0) startMediaProcessor()
+
+    return NextResponse.json({ groups, minSimilarity, pending })
+  } catch (error) {
+    console.error('Error finding duplicate assets:', error)
+    return NextResponse.json({ error: 'Failed to find duplicate assets' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importZipArchive, parseZipMapping, InvalidZipError, ZipTooLargeError } from '@/lib/zip-import'
+
+// POST import the images and videos in a ZIP archive as assets
+// Expects multipart form data with the archive as "file" and an optional
+// JSON "mapping" of folder levels to OEM, screen type and asset type
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    let mapping
+    try {
+      const raw = formData.get('mapping')
+      mapping = parseZipMapping(typeof raw === 'string' && raw ? JSON.parse(raw) : null)
+    } catch {
+      return NextResponse.json({ error: 'Invalid mapping' }, { status: 400 })
+    }
+
+    const result = await importZipArchive(new Uint8Array(await file.arrayBuffer()), mapping)
+
+    return NextResponse.json(result, { status: result.created > 0 ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof InvalidZipError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof ZipTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 })
+    }
+    console.error('Error importing ZIP archive:', error)
+    return NextResponse.json({ error: 'Failed to import ZIP archive' }, { status: 500 })
+  }
+}
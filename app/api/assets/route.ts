@@ -1,33 +1,98 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { parseTagList, connectTags } from '@/lib/tags'
+import {
+  ASSET_PAGE_SIZE,
+  MAX_ASSET_PAGE_SIZE,
+  isAssetSort,
+  assetWhere,
+  assetOrderBy,
+  getAssetFacets,
+  type AssetListFilters,
+} from '@/lib/asset-query'
+import { searchAssets, MAX_SEARCH_CANDIDATES } from '@/lib/search'
+import { startMediaProcessor } from '@/lib/asset-media'
+import { hashStoredUpload } from '@/lib/uploads'
 
-// GET all assets with optional filtering
+// GET a page of assets with optional filtering and sorting
+// Pass nextCursor back as ?cursor= for the following page; the first page also
+// carries the total and facet counts
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const search = searchParams.get('search') || ''
-    const oem = searchParams.get('oem') || ''
-    const screenType = searchParams.get('screenType') || ''
-    const assetType = searchParams.get('assetType') || ''
-
-    const assets = await prisma.asset.findMany({
-      where: {
-        AND: [
-          search ? {
-            OR: [
-              { name: { contains: search } },
-              { description: { contains: search } },
-            ]
-          } : {},
-          oem ? { oem } : {},
-          screenType ? { screenType } : {},
-          assetType ? { assetType } : {},
-        ]
-      },
-      orderBy: { createdAt: 'desc' }
-    })
+    const cursor = searchParams.get('cursor')
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '') || ASSET_PAGE_SIZE, 1),
+      MAX_ASSET_PAGE_SIZE
+    )
+    const sortParam = searchParams.get('sort')
+    const sort = isAssetSort(sortParam) ? sortParam : search ? 'relevance' : 'createdAt'
+    const orderParam = searchParams.get('order')
+    const order = orderParam === 'asc' || orderParam === 'desc' ? orderParam : undefined
+
+    // Ranked ids of the best search matches, best first. Bounded, so the id
+    // filters below stay small
+    const rankedIds = search
+      ? (await searchAssets(prisma, search, MAX_SEARCH_CANDIDATES)).map(hit => hit.item.id)
+      : null
+
+    const filters: AssetListFilters = {
+      ids: rankedIds,
+      oem: searchParams.get('oem') || '',
+      screenType: searchParams.get('screenType') || '',
+      assetType: searchParams.get('assetType') || '',
+      format: searchParams.get('format') || '',
+      tags: parseTagList(searchParams.get('tags')),
+      tagMode: searchParams.get('tagMode') === 'any' ? 'any' : 'all',
+    }
+    const where = assetWhere(filters)
+
+    let assets
+    let nextCursor: string | null = null
+
+    if (sort === 'relevance' && rankedIds) {
+      // Rank order lives outside the database, so page through the ranked ids
+      const matching = new Set(
+        (await prisma.asset.findMany({ where, select: { id: true } })).map(asset => asset.id)
+      )
+      const ordered = rankedIds.filter(id => matching.has(id))
+      // An unknown cursor, e.g. an asset deleted since the last page, ends the results
+      // rather than starting them over
+      const start = cursor ? (ordered.includes(cursor) ? ordered.indexOf(cursor) + 1 : ordered.length) : 0
+      const pageIds = ordered.slice(start, start + limit)
+      if (start + limit < ordered.length) nextCursor = pageIds[pageIds.length - 1]
 
-    return NextResponse.json(assets)
+      const rank = new Map(pageIds.map((id, index) => [id, index]))
+      assets = (await prisma.asset.findMany({
+        where: { id: { in: pageIds } },
+        include: { tags: true },
+      })).sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0))
+    } else {
+      const page = await prisma.asset.findMany({
+        where,
+        include: { tags: true },
+        orderBy: assetOrderBy(sort === 'relevance' ? 'createdAt' : sort, order),
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+      if (page.length > limit) nextCursor = page[limit - 1].id
+      assets = page.slice(0, limit)
+    }
+
+    // Assets from before previews existed, or whose processing was cut short by a restart
+    if (assets.some(asset => !asset.mediaProcessedAt)) startMediaProcessor()
+
+    if (cursor) {
+      return NextResponse.json({ assets, nextCursor })
+    }
+
+    const [total, facets] = await Promise.all([
+      prisma.asset.count({ where }),
+      getAssetFacets(prisma, filters),
+    ])
+
+    return NextResponse.json({ assets, nextCursor, total, facets })
   } catch (error) {
     console.error('Error fetching assets:', error)
     return NextResponse.json({ error: 'Failed to fetch assets' }, { status: 500 })
@@ -39,6 +104,12 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { name, filename, url, oem, screenType, assetType, description, format, size } = body
+    const tags = parseTagList(body.tags)
+
+    const contentHash = await hashStoredUpload(url)
+    if (!contentHash) {
+      return NextResponse.json({ error: 'File not found in storage, upload it first' }, { status: 400 })
+    }
 
     const asset = await prisma.asset.create({
       data: {
@@ -51,8 +122,12 @@ export async function POST(request: NextRequest) {
         description,
         format,
         size,
-      }
+        contentHash,
+        tags: { connectOrCreate: connectTags(tags) },
+      },
+      include: { tags: true },
     })
+    startMediaProcessor()
 
     return NextResponse.json(asset, { status: 201 })
   } catch (error) {
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+interface RouteParams {
+  params: Promise<{ id: string; assetId: string }>
+}
+
+// DELETE /api/collections/[id]/items/[assetId] - Remove an asset from a collection
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id, assetId } = await params
+
+    const { count } = await prisma.collectionItem.deleteMany({
+      where: { collectionId: id, assetId },
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Asset is not in this collection' },
+        { status: 404 }
+      )
+    }
+
+    // A removed asset should not stay the cover
+    await prisma.collection.updateMany({
+      where: { id, coverAssetId: assetId },
+      data: { coverAssetId: null },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing from collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove from collection' },
+      { status: 500 }
+    )
+  }
+}
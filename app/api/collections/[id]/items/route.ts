@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { addAssetsToCollection } from '@/lib/collections'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/collections/[id]/items - Add assets to the end of a collection
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const { assetIds } = await request.json()
+
+    if (!Array.isArray(assetIds) || assetIds.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one asset is required' },
+        { status: 400 }
+      )
+    }
+
+    const collection = await prisma.collection.findUnique({ where: { id } })
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const added = await prisma.$transaction(tx => addAssetsToCollection(tx, id, assetIds))
+
+    return NextResponse.json({ success: true, added })
+  } catch (error) {
+    console.error('Error adding to collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to add to collection' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/collections/[id]/items - Reorder the assets of a collection
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const { assetIds } = await request.json()
+
+    if (!Array.isArray(assetIds)) {
+      return NextResponse.json(
+        { error: 'The ordered asset ids are required' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction(
+      assetIds.map((assetId: string, index: number) =>
+        prisma.collectionItem.updateMany({
+          where: { collectionId: id, assetId },
+          data: { order: index },
+        })
+      )
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error reordering collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder collection' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { collectionSummaryInclude, getCollectionPath, wouldCreateCycle } from '@/lib/collections'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/collections/[id] - Get a collection with its assets, sub-collections and path
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+      include: {
+        coverAsset: true,
+        items: {
+          include: {
+            asset: {
+              include: { tags: true },
+            },
+          },
+          orderBy: { order: 'asc' },
+        },
+        children: {
+          include: collectionSummaryInclude,
+          orderBy: { name: 'asc' },
+        },
+      },
+    })
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const path = await getCollectionPath(prisma, collection.parentId)
+
+    return NextResponse.json({
+      collection: {
+        ...collection,
+        children: collection.children.map(({ items, ...child }) => ({
+          ...child,
+          firstItem: items[0] || null,
+        })),
+      },
+      path,
+    })
+  } catch (error) {
+    console.error('Error fetching collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch collection' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/collections/[id] - Rename, describe, set the cover or move a collection
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { description, coverAssetId, parentId } = body
+    const name = typeof body.name === 'string' ? body.name.trim() : undefined
+
+    if (name === '') {
+      return NextResponse.json(
+        { error: 'Name cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.collection.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    if (parentId && (typeof parentId !== 'string' || !await prisma.collection.findUnique({ where: { id: parentId } }))) {
+      return NextResponse.json(
+        { error: 'Parent collection not found' },
+        { status: 400 }
+      )
+    }
+
+    if (parentId && await wouldCreateCycle(prisma, id, parentId)) {
+      return NextResponse.json(
+        { error: 'A collection cannot be moved inside itself' },
+        { status: 400 }
+      )
+    }
+
+    const collection = await prisma.collection.update({
+      where: { id },
+      data: {
+        name,
+        description: description !== undefined ? description || null : undefined,
+        coverAssetId: coverAssetId !== undefined ? coverAssetId || null : undefined,
+        parentId: parentId !== undefined ? parentId || null : undefined,
+      },
+      include: collectionSummaryInclude,
+    })
+
+    return NextResponse.json({ collection })
+  } catch (error) {
+    console.error('Error updating collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to update collection' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/collections/[id] - Delete a collection and its sub-collections
+// The assets themselves stay in the library
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    await prisma.collection.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete collection' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { collectionSummaryInclude } from '@/lib/collections'
+
+// GET /api/collections - List every collection with its counts and cover
+// Pass ?assetId= to flag the collections that already contain that asset
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('assetId')
+
+    const collections = await prisma.collection.findMany({
+      include: collectionSummaryInclude,
+      orderBy: { name: 'asc' },
+    })
+
+    const containing = assetId
+      ? new Set((await prisma.collectionItem.findMany({
+          where: { assetId },
+          select: { collectionId: true },
+        })).map(item => item.collectionId))
+      : null
+
+    return NextResponse.json({
+      collections: collections.map(({ items, ...collection }) => ({
+        ...collection,
+        firstItem: items[0] || null,
+        ...(containing ? { containsAsset: containing.has(collection.id) } : {}),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching collections:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/collections - Create a collection, optionally inside another one
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { description, parentId, assetIds } = body
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (parentId) {
+      const parent = await prisma.collection.findUnique({ where: { id: parentId } })
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent collection not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    // Assets can be added right away, e.g. when creating from "add to collection".
+    // Each asset is in a collection at most once
+    const ids: string[] = Array.isArray(assetIds) ? [...new Set<string>(assetIds)] : []
+
+    const collection = await prisma.collection.create({
+      data: {
+        name,
+        description: description || null,
+        parentId: parentId || null,
+        items: {
+          create: ids.map((assetId, index) => ({ assetId, order: index })),
+        },
+      },
+      include: collectionSummaryInclude,
+    })
+
+    return NextResponse.json({ collection }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating collection:', error)
+    return NextResponse.json(
+      { error: 'Failed to create collection' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,83 @@
 import { NextResponse } from 'next/server'
+import { getFigmaToken } from '@/lib/figma'
+import { enqueueRenderJob } from '@/lib/render-queue'
+import { FfmpegUnavailableError, isFfmpegAvailable } from '@/lib/video'
 
-// Video generation requires FFmpeg which is not available on Vercel serverless
-// This feature only works in local development
-export async function POST() {
-  return NextResponse.json(
-    { 
-      error: 'Video generation is not available in cloud deployment. This feature requires FFmpeg which only works in local development.',
-      suggestion: 'Run the app locally (npm run dev) to use video generation features.'
-    },
-    { status: 503 }
-  )
+interface AiGenerateRequest {
+  fileKey: string;
+  description: string;
+  frameIds?: string[];
+  videoName?: string;
+  metadata: {
+    oem: string;
+    screenType: string;
+    description?: string;
+  };
+}
+
+// Queue a video render from a plain-language description of the flow
+// Poll GET /api/jobs/[id] for progress
+export async function POST(request: Request) {
+  try {
+    const body: AiGenerateRequest = await request.json()
+    const { fileKey, frameIds, metadata } = body
+
+    if (!fileKey || !body.description?.trim()) {
+      return NextResponse.json(
+        { error: 'File key and description are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!metadata?.oem || !metadata?.screenType) {
+      return NextResponse.json(
+        { error: 'OEM and screen type are required' },
+        { status: 400 }
+      )
+    }
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    if (!process.env.ANTHROPIC_API_KEY) {
+      return NextResponse.json(
+        { error: 'ANTHROPIC_API_KEY is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      throw new FfmpegUnavailableError()
+    }
+
+    const job = await enqueueRenderJob('figma-ai', {
+      fileKey,
+      frameIds,
+      description: body.description.trim(),
+      videoName: body.videoName?.trim() || 'AI Flow',
+      metadata,
+    })
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Error generating video with AI:', error)
+
+    if (error instanceof FfmpegUnavailableError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          suggestion: 'Install FFmpeg (or set FFMPEG_PATH) on the server running the app.'
+        },
+        { status: 503 }
+      )
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to generate video'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
 }
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getFigmaToken } from '@/lib/figma'
+import { checkFigmaUpdates } from '@/lib/figma-sync'
+
+// List the Figma files assets were imported from and whether they changed since the last sync
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const fileKey = searchParams.get('key') || undefined
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    const files = await checkFigmaUpdates(token, fileKey)
+
+    return NextResponse.json({ files })
+  } catch (error) {
+    console.error('Error checking Figma updates:', error)
+    const message = error instanceof Error ? error.message : 'Failed to check for updates'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
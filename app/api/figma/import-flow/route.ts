@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { getFigmaToken } from '@/lib/figma'
+import { importPrototypeFlow, FrameImportMetadata } from '@/lib/figma-import'
+
+interface ImportFlowRequest {
+  fileKey: string;
+  fileName: string;
+  flowName?: string;
+  frames: Array<{
+    id: string;
+    name: string;
+  }>;
+  metadata: FrameImportMetadata;
+}
+
+// Import prototype screens as assets and link them into a clickable flow
+export async function POST(request: Request) {
+  try {
+    const body: ImportFlowRequest = await request.json()
+    const { fileKey, fileName, frames, metadata } = body
+
+    if (!fileKey || !frames || frames.length < 2) {
+      return NextResponse.json(
+        { error: 'File key and at least 2 frames are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!metadata?.oem || !metadata?.screenType || !metadata?.assetType) {
+      return NextResponse.json(
+        { error: 'OEM, screen type and asset type are required' },
+        { status: 400 }
+      )
+    }
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    const { flow, hotspotCount } = await importPrototypeFlow(token, fileKey, fileName, frames, {
+      name: body.flowName?.trim() || `${fileName} - Prototype`,
+      description: metadata.description,
+      metadata,
+    })
+
+    return NextResponse.json({
+      success: true,
+      flow,
+      imported: flow.frames.length,
+      hotspots: hotspotCount,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing prototype flow from Figma:', error)
+    const message = error instanceof Error ? error.message : 'Failed to import prototype'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
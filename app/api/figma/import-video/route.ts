@@ -1,13 +1,82 @@
 import { NextResponse } from 'next/server'
+import { getFigmaToken, parseFileKeyFromUrl } from '@/lib/figma'
+import { parseSequence } from '@/lib/figma-video'
+import { enqueueRenderJob } from '@/lib/render-queue'
+import { FfmpegUnavailableError, isFfmpegAvailable } from '@/lib/video'
 
-// Video generation requires FFmpeg which is not available on Vercel serverless
-// This feature only works in local development
-export async function POST() {
-  return NextResponse.json(
-    { 
-      error: 'Video generation is not available in cloud deployment. This feature requires FFmpeg which only works in local development.',
-      suggestion: 'Run the app locally (npm run dev) to use video generation features.'
-    },
-    { status: 503 }
-  )
+interface ImportVideoRequest {
+  figmaUrl?: string;
+  fileKey?: string;
+  videoName?: string;
+  metadata: {
+    oem: string;
+    screenType: string;
+    assetType?: string;
+    description?: string;
+  };
+  sequence: unknown;
+}
+
+// Queue a render of a user-arranged sequence of Figma frames into an MP4 asset
+// Poll GET /api/jobs/[id] for progress
+export async function POST(request: Request) {
+  try {
+    const body: ImportVideoRequest = await request.json()
+    const fileKey = body.fileKey || (body.figmaUrl ? parseFileKeyFromUrl(body.figmaUrl) : null)
+    const sequence = parseSequence(body.sequence)
+
+    if (!fileKey || sequence.length < 2) {
+      return NextResponse.json(
+        { error: 'File key and at least 2 frames are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.metadata?.oem || !body.metadata?.screenType) {
+      return NextResponse.json(
+        { error: 'OEM and screen type are required' },
+        { status: 400 }
+      )
+    }
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      throw new FfmpegUnavailableError()
+    }
+
+    const job = await enqueueRenderJob('figma-sequence', {
+      fileKey,
+      sequence,
+      videoName: body.videoName?.trim() || 'Figma Flow',
+      metadata: {
+        oem: body.metadata.oem,
+        screenType: body.metadata.screenType,
+        description: body.metadata.description,
+      },
+    })
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Error creating video from Figma:', error)
+
+    if (error instanceof FfmpegUnavailableError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          suggestion: 'Install FFmpeg (or set FFMPEG_PATH) on the server running the app.'
+        },
+        { status: 503 }
+      )
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to create video'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
 }
@@ -1,22 +1,73 @@
 import { NextResponse } from 'next/server'
+import { getFigmaToken } from '@/lib/figma'
+import { FlowSettings } from '@/lib/flow-generator'
+import { enqueueRenderJob } from '@/lib/render-queue'
+import { FfmpegUnavailableError, isFfmpegAvailable } from '@/lib/video'
 
-// Video generation requires FFmpeg which is not available on Vercel serverless
-// This feature only works in local development
-export async function POST() {
-  const isProduction = process.env.VERCEL === '1' || process.env.NODE_ENV === 'production'
-  
-  if (isProduction) {
-    return NextResponse.json(
-      { 
-        error: 'Video generation is not available in the cloud deployment. This feature requires FFmpeg which only works in local development.',
-        suggestion: 'Run the app locally (npm run dev) to use video generation features.'
+interface SmartGenerateRequest {
+  fileKey: string;
+  frameIds?: string[];
+  settings?: Partial<FlowSettings>;
+  videoName?: string;
+  metadata: {
+    oem: string;
+    screenType: string;
+    description?: string;
+  };
+}
+
+// Queue a video render that follows the file's prototype connections
+// Poll GET /api/jobs/[id] for progress
+export async function POST(request: Request) {
+  try {
+    const body: SmartGenerateRequest = await request.json()
+    const { fileKey, frameIds, metadata } = body
+
+    if (!fileKey || !metadata?.oem || !metadata?.screenType) {
+      return NextResponse.json(
+        { error: 'File key, OEM and screen type are required' },
+        { status: 400 }
+      )
+    }
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      throw new FfmpegUnavailableError()
+    }
+
+    const job = await enqueueRenderJob('figma-smart', {
+      fileKey,
+      frameIds,
+      settings: {
+        duration: body.settings?.duration || 2,
+        transition: body.settings?.transition || 'fade',
       },
-      { status: 503 }
-    )
-  }
+      videoName: body.videoName?.trim() || 'Prototype Flow',
+      metadata,
+    })
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Error generating video from prototype:', error)
 
-  return NextResponse.json(
-    { error: 'Video generation only available in local development' },
-    { status: 503 }
-  )
+    if (error instanceof FfmpegUnavailableError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          suggestion: 'Install FFmpeg (or set FFMPEG_PATH) on the server running the app.'
+        },
+        { status: 503 }
+      )
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to generate video'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
 }
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getFigmaToken } from '@/lib/figma'
+import { syncFigmaFile } from '@/lib/figma-sync'
+
+interface SyncRequest {
+  fileKey: string;
+  keepVersions?: boolean;
+}
+
+// Refresh every asset imported from a Figma file with the file's current frames
+export async function POST(request: Request) {
+  try {
+    const body: SyncRequest = await request.json()
+    const { fileKey, keepVersions = true } = body
+
+    if (!fileKey) {
+      return NextResponse.json(
+        { error: 'File key is required' },
+        { status: 400 }
+      )
+    }
+
+    const token = await getFigmaToken()
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Figma access token not configured' },
+        { status: 401 }
+      )
+    }
+
+    const result = await syncFigmaFile(token, fileKey, { keepVersions })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error syncing from Figma:', error)
+    const message = error instanceof Error ? error.message : 'Failed to sync from Figma'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { nameZipEntries, streamZipExport, zipDisposition } from '@/lib/zip-export'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/flows/[id]/download - Download every frame of the flow as a ZIP, numbered in flow order
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const flow = await prisma.flow.findUnique({
+      where: { id },
+      include: {
+        frames: {
+          include: { asset: { include: { tags: true } } },
+          orderBy: { order: 'asc' },
+        },
+      },
+    })
+
+    if (!flow) {
+      return NextResponse.json(
+        { error: 'Flow not found' },
+        { status: 404 }
+      )
+    }
+
+    if (flow.frames.length === 0) {
+      return NextResponse.json(
+        { error: 'Flow has no frames to download' },
+        { status: 400 }
+      )
+    }
+
+    const entries = nameZipEntries(
+      flow.frames.map(frame => ({
+        asset: frame.asset,
+        frame: {
+          order: frame.order,
+          delay: frame.delay,
+          transition: frame.transition,
+          transitionDuration: frame.transitionDuration,
+        },
+      })),
+      true
+    )
+
+    const stream = streamZipExport(
+      { name: flow.name, flow: { id: flow.id, name: flow.name, description: flow.description } },
+      entries
+    )
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': zipDisposition(flow.name),
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading flow:', error)
+    return NextResponse.json(
+      { error: 'Failed to download flow' },
+      { status: 500 }
+    )
+  }
+}
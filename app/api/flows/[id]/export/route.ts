@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { enqueueRenderJob } from '@/lib/render-queue'
+import { FfmpegUnavailableError, isFfmpegAvailable, VIDEO_FORMATS, VideoFormat } from '@/lib/video'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/flows/[id]/export?format=mp4|webm|gif - Queue a render of the flow into a single file
+// Poll GET /api/jobs/[id] for progress, the finished file is at job.outputUrl
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'mp4') as VideoFormat
+
+    if (!Object.hasOwn(VIDEO_FORMATS, format)) {
+      return NextResponse.json(
+        { error: 'Format must be one of: mp4, webm, gif' },
+        { status: 400 }
+      )
+    }
+
+    const flow = await prisma.flow.findUnique({
+      where: { id },
+      include: { _count: { select: { frames: true } } },
+    })
+
+    if (!flow) {
+      return NextResponse.json(
+        { error: 'Flow not found' },
+        { status: 404 }
+      )
+    }
+
+    if (flow._count.frames === 0) {
+      return NextResponse.json(
+        { error: 'Flow has no frames to export' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      throw new FfmpegUnavailableError()
+    }
+
+    const job = await enqueueRenderJob('flow-export', { flowId: id, format })
+
+    return NextResponse.json({ job }, { status: 202 })
+  } catch (error) {
+    console.error('Error exporting flow:', error)
+
+    if (error instanceof FfmpegUnavailableError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          suggestion: 'Install FFmpeg (or set FFMPEG_PATH) on the server running the app.'
+        },
+        { status: 503 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to export flow' },
+      { status: 500 }
+    )
+  }
+}
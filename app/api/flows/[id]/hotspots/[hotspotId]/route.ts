@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { normalizeHotspotRect } from '@/lib/hotspots'
+
+interface RouteParams {
+  params: Promise<{ id: string; hotspotId: string }>
+}
+
+// PUT /api/flows/[id]/hotspots/[hotspotId] - Move, resize or relink a hotspot
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id, hotspotId } = await params
+    const body = await request.json()
+
+    const hotspot = await prisma.flowHotspot.findFirst({
+      where: { id: hotspotId, frame: { flowId: id } },
+    })
+
+    if (!hotspot) {
+      return NextResponse.json(
+        { error: 'Hotspot not found' },
+        { status: 404 }
+      )
+    }
+
+    // Position and size are optional, but must be valid when given
+    const hasRect = ['x', 'y', 'width', 'height'].some(key => body[key] !== undefined)
+    const rect = hasRect ? normalizeHotspotRect({ ...hotspot, ...body }) : null
+    if (hasRect && !rect) {
+      return NextResponse.json(
+        { error: 'Invalid hotspot position or size' },
+        { status: 400 }
+      )
+    }
+
+    if (body.targetFrameId !== undefined) {
+      const target = await prisma.flowFrame.findFirst({
+        where: { id: body.targetFrameId, flowId: id },
+      })
+
+      if (!target || target.id === hotspot.frameId) {
+        return NextResponse.json(
+          { error: 'Target must be a different frame in this flow' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updated = await prisma.flowHotspot.update({
+      where: { id: hotspotId },
+      data: {
+        ...(rect || {}),
+        targetFrameId: body.targetFrameId,
+      },
+    })
+
+    return NextResponse.json({ hotspot: updated })
+  } catch (error) {
+    console.error('Error updating hotspot:', error)
+    return NextResponse.json(
+      { error: 'Failed to update hotspot' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/flows/[id]/hotspots/[hotspotId] - Remove a hotspot
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id, hotspotId } = await params
+
+    const { count } = await prisma.flowHotspot.deleteMany({
+      where: { id: hotspotId, frame: { flowId: id } },
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Hotspot not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting hotspot:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete hotspot' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { normalizeHotspotRect } from '@/lib/hotspots'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/flows/[id]/hotspots - List the hotspots of every frame in the flow
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const hotspots = await prisma.flowHotspot.findMany({
+      where: { frame: { flowId: id } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ hotspots })
+  } catch (error) {
+    console.error('Error fetching hotspots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch hotspots' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/flows/[id]/hotspots - Draw a hotspot on a frame linking to another frame
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { frameId, targetFrameId } = body
+    const rect = normalizeHotspotRect(body)
+
+    if (!frameId || !targetFrameId || frameId === targetFrameId) {
+      return NextResponse.json(
+        { error: 'A frame and a different target frame are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!rect) {
+      return NextResponse.json(
+        { error: 'Hotspot position and size are required' },
+        { status: 400 }
+      )
+    }
+
+    // Both frames must belong to this flow
+    const frameCount = await prisma.flowFrame.count({
+      where: { id: { in: [frameId, targetFrameId] }, flowId: id },
+    })
+
+    if (frameCount !== 2) {
+      return NextResponse.json(
+        { error: 'Frame not found in this flow' },
+        { status: 404 }
+      )
+    }
+
+    const hotspot = await prisma.flowHotspot.create({
+      data: {
+        frameId,
+        targetFrameId,
+        ...rect,
+      },
+    })
+
+    return NextResponse.json({ hotspot }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating hotspot:', error)
+    return NextResponse.json(
+      { error: 'Failed to create hotspot' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { saveFlowFrames, FlowFrameInput } from '@/lib/flow-frames'
+import { recordFlowVersion, recordBaselineVersion } from '@/lib/flow-versions'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -16,6 +18,7 @@ export async function GET(request: Request, { params }: RouteParams) {
         frames: {
           include: {
             asset: true,
+            hotspots: true,
           },
           orderBy: {
             order: 'asc',
@@ -42,40 +45,61 @@ export async function GET(request: Request, { params }: RouteParams) {
 }
 
 // PUT /api/flows/[id] - Update flow
+// Existing frames sent with their id keep their hotspots (see saveFlowFrames)
+// Every update is recorded as a new version in the flow's history
 export async function PUT(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params
     const body = await request.json()
-    const { name, description, frames } = body
+    const { name, description } = body
+    const frames: FlowFrameInput[] | undefined = body.frames
 
-    // Delete existing frames and create new ones
-    await prisma.flowFrame.deleteMany({
-      where: { flowId: id },
+    const existing = await prisma.flow.findUnique({
+      where: { id },
+      select: { id: true },
     })
 
-    const flow = await prisma.flow.update({
-      where: { id },
-      data: {
-        name,
-        description: description || null,
-        frames: frames ? {
-          create: frames.map((frame: { assetId: string; delay?: number }, index: number) => ({
-            assetId: frame.assetId,
-            order: index,
-            delay: frame.delay || 1000,
-          })),
-        } : undefined,
-      },
-      include: {
-        frames: {
-          include: {
-            asset: true,
-          },
-          orderBy: {
-            order: 'asc',
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Flow not found' },
+        { status: 404 }
+      )
+    }
+
+    if (frames && frames.length === 0) {
+      return NextResponse.json(
+        { error: 'A flow needs at least one frame' },
+        { status: 400 }
+      )
+    }
+
+    const flow = await prisma.$transaction(async (tx) => {
+      await recordBaselineVersion(tx, id)
+
+      if (frames) {
+        await saveFlowFrames(tx, id, frames)
+      }
+
+      const updated = await tx.flow.update({
+        where: { id },
+        data: {
+          name: name || undefined,
+          description: description !== undefined ? description || null : undefined,
+        },
+        include: {
+          frames: {
+            include: {
+              asset: true,
+              hotspots: true,
+            },
+            orderBy: {
+              order: 'asc',
+            },
           },
         },
-      },
+      })
+      await recordFlowVersion(tx, id, 'Updated')
+      return updated
     })
 
     return NextResponse.json({ flow })
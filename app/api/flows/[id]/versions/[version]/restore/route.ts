@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { restoreFlowVersion, parseVersionNumber, FlowRestoreError } from '@/lib/flow-versions'
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>
+}
+
+// POST /api/flows/[id]/versions/[version]/restore - Put the flow back to a saved version
+// The restore itself is recorded as a new version, so it can be undone
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id, version } = await params
+    const versionNumber = parseVersionNumber(version)
+
+    if (versionNumber === null) {
+      return NextResponse.json(
+        { error: 'Invalid version' },
+        { status: 400 }
+      )
+    }
+
+    const target = await prisma.flowVersion.findUnique({
+      where: { flowId_version: { flowId: id, version: versionNumber } },
+    })
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    const flow = await prisma.$transaction(async (tx) => {
+      await restoreFlowVersion(tx, id, target)
+      return tx.flow.findUniqueOrThrow({
+        where: { id },
+        include: {
+          frames: {
+            include: {
+              asset: true,
+              hotspots: true,
+            },
+            orderBy: {
+              order: 'asc',
+            },
+          },
+        },
+      })
+    })
+
+    return NextResponse.json({ flow })
+  } catch (error) {
+    if (error instanceof FlowRestoreError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring flow version:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore flow version' },
+      { status: 500 }
+    )
+  }
+}
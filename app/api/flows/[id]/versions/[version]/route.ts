@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { diffFlowSnapshots, loadFlowSnapshot, snapshotOf, parseVersionNumber, FlowSnapshot } from '@/lib/flow-versions'
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>
+}
+
+// GET /api/flows/[id]/versions/[version]?compare=<version>|current
+// Get a version's snapshot and what changed compared to another version
+// Compares with the previous version by default; "current" shows what restoring would change
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id, version } = await params
+    const { searchParams } = new URL(request.url)
+    const compare = searchParams.get('compare')
+    const versionNumber = parseVersionNumber(version)
+
+    if (versionNumber === null) {
+      return NextResponse.json(
+        { error: 'Invalid version' },
+        { status: 400 }
+      )
+    }
+
+    const target = await prisma.flowVersion.findUnique({
+      where: { flowId_version: { flowId: id, version: versionNumber } },
+    })
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    const snapshot = snapshotOf(target)
+    let diff
+
+    if (compare === 'current') {
+      // Changes from the live flow to this version
+      diff = diffFlowSnapshots(await loadFlowSnapshot(prisma, id), snapshot)
+    } else {
+      const compareNumber = compare ? parseVersionNumber(compare) : versionNumber - 1
+      if (compareNumber === null) {
+        return NextResponse.json(
+          { error: 'Invalid version to compare with' },
+          { status: 400 }
+        )
+      }
+
+      const base = await prisma.flowVersion.findUnique({
+        where: { flowId_version: { flowId: id, version: compareNumber } },
+      })
+
+      if (compare && !base) {
+        return NextResponse.json(
+          { error: 'Version to compare with not found' },
+          { status: 404 }
+        )
+      }
+
+      // The first version is compared with an empty flow
+      const empty: FlowSnapshot = { name: snapshot.name, description: snapshot.description, frames: [] }
+      diff = diffFlowSnapshots(base ? snapshotOf(base) : empty, snapshot)
+    }
+
+    return NextResponse.json({
+      version: {
+        id: target.id,
+        version: target.version,
+        note: target.note,
+        createdAt: target.createdAt,
+        ...snapshot,
+      },
+      diff,
+    })
+  } catch (error) {
+    console.error('Error fetching flow version:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch flow version' },
+      { status: 500 }
+    )
+  }
+}
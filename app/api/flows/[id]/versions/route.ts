@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { snapshotOf } from '@/lib/flow-versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/flows/[id]/versions - List the flow's saved versions, newest first
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const versions = await prisma.flowVersion.findMany({
+      where: { flowId: id },
+      orderBy: { version: 'desc' },
+    })
+
+    return NextResponse.json({
+      versions: versions.map(version => ({
+        id: version.id,
+        version: version.version,
+        note: version.note,
+        name: version.name,
+        frameCount: snapshotOf(version).frames.length,
+        createdAt: version.createdAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching flow versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch flow versions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { normalizeTransition } from '@/lib/transitions'
+import { FlowFrameInput } from '@/lib/flow-frames'
+import { recordFlowVersion } from '@/lib/flow-versions'
 
 // GET /api/flows - List all flows
 export async function GET() {
@@ -9,6 +12,7 @@ export async function GET() {
         frames: {
           include: {
             asset: true,
+            hotspots: true,
           },
           orderBy: {
             order: 'asc',
@@ -43,29 +47,35 @@ export async function POST(request: Request) {
       )
     }
 
-    const flow = await prisma.flow.create({
-      data: {
-        name,
-        description: description || null,
-        figmaFileId: figmaFileId || null,
-        frames: {
-          create: frames.map((frame: { assetId: string; delay?: number }, index: number) => ({
-            assetId: frame.assetId,
-            order: index,
-            delay: frame.delay || 1000,
-          })),
-        },
-      },
-      include: {
-        frames: {
-          include: {
-            asset: true,
+    const flow = await prisma.$transaction(async (tx) => {
+      const created = await tx.flow.create({
+        data: {
+          name,
+          description: description || null,
+          figmaFileId: figmaFileId || null,
+          frames: {
+            create: frames.map((frame: FlowFrameInput, index: number) => ({
+              assetId: frame.assetId,
+              order: index,
+              delay: frame.delay || 1000,
+              ...normalizeTransition(frame.transition, frame.transitionDuration),
+            })),
           },
-          orderBy: {
-            order: 'asc',
+        },
+        include: {
+          frames: {
+            include: {
+              asset: true,
+              hotspots: true,
+            },
+            orderBy: {
+              order: 'asc',
+            },
           },
         },
-      },
+      })
+      await recordFlowVersion(tx, created.id, 'Created')
+      return created
     })
 
     return NextResponse.json({ flow }, { status: 201 })
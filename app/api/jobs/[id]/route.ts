@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { startRenderWorker } from '@/lib/render-queue'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/jobs/[id] - Get render job status and progress
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const job = await prisma.renderJob.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        progress: true,
+        error: true,
+        outputAssetId: true,
+        outputAsset: true,
+        outputUrl: true,
+        outputFilename: true,
+        createdAt: true,
+        startedAt: true,
+        completedAt: true,
+      },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    // Queued jobs left over from a previous server process need a worker
+    if (job.status === 'queued') {
+      startRenderWorker()
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
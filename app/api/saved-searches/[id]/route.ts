@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/saved-searches/[id] - Remove a saved search
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const existing = await prisma.savedSearch.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+    }
+
+    await prisma.savedSearch.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting saved search:', error)
+    return NextResponse.json({ error: 'Failed to delete saved search' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { assetFiltersFromParams, assetFiltersToParams } from '@/lib/asset-query'
+
+// GET /api/saved-searches - List saved library views by name
+export async function GET() {
+  try {
+    const savedSearches = await prisma.savedSearch.findMany({
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ savedSearches })
+  } catch (error) {
+    console.error('Error fetching saved searches:', error)
+    return NextResponse.json({ error: 'Failed to fetch saved searches' }, { status: 500 })
+  }
+}
+
+// POST /api/saved-searches - Save the library filters under a name
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    // Round-trip through the filters so only known parameters are stored
+    const query = assetFiltersToParams(
+      assetFiltersFromParams(new URLSearchParams(typeof body.query === 'string' ? body.query : ''))
+    ).toString()
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: { name, query },
+    })
+
+    return NextResponse.json(savedSearch, { status: 201 })
+  } catch (error) {
+    console.error('Error saving search:', error)
+    return NextResponse.json({ error: 'Failed to save search' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { searchAssets, searchFlows } from '@/lib/search'
+
+const MAX_LIMIT = 100
+
+// GET /api/search?q=&type=all|assets|flows - Ranked assets and flows with highlighted matches
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const query = searchParams.get('q')?.trim() || ''
+    const type = searchParams.get('type') || 'all'
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), MAX_LIMIT)
+
+    if (!['all', 'assets', 'flows'].includes(type)) {
+      return NextResponse.json({ error: 'type must be all, assets or flows' }, { status: 400 })
+    }
+
+    if (!query) {
+      return NextResponse.json({ query, assets: [], flows: [] })
+    }
+
+    const [assets, flows] = await Promise.all([
+      type === 'flows' ? [] : searchAssets(prisma, query, limit),
+      type === 'assets' ? [] : searchFlows(prisma, query, limit),
+    ])
+
+    return NextResponse.json({
+      query,
+      assets: assets.map(hit => ({ ...hit.item, score: hit.score, highlights: hit.highlights })),
+      flows: flows.map(hit => ({ ...hit.item, score: hit.score, highlights: hit.highlights })),
+    })
+  } catch (error) {
+    console.error('Error searching:', error)
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+  }
+}
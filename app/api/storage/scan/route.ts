@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { scanStorage, fixStorage } from '@/lib/storage-cleanup'
+
+interface FixRequest {
+  orphans?: boolean;
+  missing?: boolean;
+}
+
+// GET /api/storage/scan - Report stored files no row points at and assets whose file is gone
+export async function GET() {
+  try {
+    const scan = await scanStorage()
+    return NextResponse.json(scan)
+  } catch (error) {
+    console.error('Error scanning storage:', error)
+    const message = error instanceof Error ? error.message : 'Failed to scan storage'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+// POST /api/storage/scan - Scan again, then remove orphaned files and/or delete assets with missing files
+// Body: { orphans?: boolean, missing?: boolean }
+export async function POST(request: Request) {
+  try {
+    const body: FixRequest = await request.json()
+    const options = { orphans: body.orphans === true, missing: body.missing === true }
+
+    if (!options.orphans && !options.missing) {
+      return NextResponse.json(
+        { error: 'Choose orphans, missing or both to fix' },
+        { status: 400 }
+      )
+    }
+
+    const scan = await scanStorage()
+    const result = await fixStorage(scan, options)
+
+    return NextResponse.json({ ...scan, ...result })
+  } catch (error) {
+    console.error('Error cleaning up storage:', error)
+    const message = error instanceof Error ? error.message : 'Failed to clean up storage'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { normalizeTagName } from '@/lib/tags'
+
+const SUGGESTION_LIMIT = 10
+
+// GET tags for autocomplete, most used first, optionally matching ?q=
+export async function GET(request: NextRequest) {
+  try {
+    const query = normalizeTagName(request.nextUrl.searchParams.get('q') || '')
+
+    const tags = await prisma.tag.findMany({
+      where: query ? { name: { contains: query } } : {},
+      include: { _count: { select: { assets: true } } },
+      orderBy: [{ assets: { _count: 'desc' } }, { name: 'asc' }],
+      take: SUGGESTION_LIMIT,
+    })
+
+    return NextResponse.json({
+      tags: tags.map(tag => ({ id: tag.id, name: tag.name, assetCount: tag._count.assets })),
+    })
+  } catch (error) {
+    console.error('Error fetching tags:', error)
+    return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 })
+  }
+}
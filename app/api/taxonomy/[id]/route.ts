@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isTaxonomyKind, renameTaxonomyTerm } from '@/lib/taxonomy'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PUT /api/taxonomy/[id] - Rename a term across all assets
+// Renaming to an existing term of the same kind merges the two
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const value = typeof body.value === 'string' ? body.value.trim() : ''
+
+    if (!value) {
+      return NextResponse.json(
+        { error: 'Value is required' },
+        { status: 400 }
+      )
+    }
+
+    const term = await prisma.taxonomyTerm.findUnique({ where: { id } })
+
+    if (!term) {
+      return NextResponse.json(
+        { error: 'Term not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await prisma.$transaction(tx => renameTaxonomyTerm(tx, term, value))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error renaming taxonomy term:', error)
+    return NextResponse.json(
+      { error: 'Failed to rename taxonomy term' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/taxonomy/[id] - Remove a term no asset uses
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const term = await prisma.taxonomyTerm.findUnique({ where: { id } })
+
+    if (!term) {
+      return NextResponse.json(
+        { error: 'Term not found' },
+        { status: 404 }
+      )
+    }
+
+    const assetCount = isTaxonomyKind(term.kind)
+      ? await prisma.asset.count({ where: { [term.kind]: term.value } })
+      : 0
+
+    if (assetCount > 0) {
+      return NextResponse.json(
+        { error: `${assetCount} assets use "${term.value}". Merge it into another term instead.` },
+        { status: 409 }
+      )
+    }
+
+    await prisma.taxonomyTerm.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting taxonomy term:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete taxonomy term' },
+      { status: 500 }
+    )
+  }
+}
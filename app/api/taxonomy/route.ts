@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { TAXONOMY_KINDS, isTaxonomyKind, groupTaxonomy, countTermUsage, syncTaxonomyFromAssets } from '@/lib/taxonomy'
+
+// GET /api/taxonomy - List the OEM, screen type and asset type terms in dropdown order
+// Pass ?counts=true to include how many assets use each term
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const includeCounts = searchParams.get('counts') === 'true'
+
+    const findTerms = () => prisma.taxonomyTerm.findMany({
+      orderBy: [{ kind: 'asc' }, { order: 'asc' }, { value: 'asc' }],
+    })
+
+    let terms = await findTerms()
+
+    // First load: seed the defaults and pick up the values assets already use
+    if (terms.length === 0) {
+      await prisma.$transaction(tx => syncTaxonomyFromAssets(tx))
+      terms = await findTerms()
+    }
+
+    if (!includeCounts) {
+      return NextResponse.json({ terms, taxonomy: groupTaxonomy(terms) })
+    }
+
+    const usage = Object.fromEntries(
+      await Promise.all(TAXONOMY_KINDS.map(async kind => [kind, await countTermUsage(prisma, kind)] as const))
+    )
+
+    return NextResponse.json({
+      terms: terms.map(term => ({
+        ...term,
+        assetCount: isTaxonomyKind(term.kind) ? usage[term.kind].get(term.value) || 0 : 0,
+      })),
+      taxonomy: groupTaxonomy(terms),
+    })
+  } catch (error) {
+    console.error('Error fetching taxonomy:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch taxonomy' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/taxonomy - Add a term at the end of its list
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { kind } = body
+    const value = typeof body.value === 'string' ? body.value.trim() : ''
+
+    if (!isTaxonomyKind(kind) || !value) {
+      return NextResponse.json(
+        { error: 'A valid kind and a value are required' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.taxonomyTerm.findUnique({
+      where: { kind_value: { kind, value } },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `"${value}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const last = await prisma.taxonomyTerm.findFirst({
+      where: { kind },
+      orderBy: { order: 'desc' },
+    })
+
+    const term = await prisma.taxonomyTerm.create({
+      data: { kind, value, order: last ? last.order + 1 : 0 },
+    })
+
+    return NextResponse.json({ term }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating taxonomy term:', error)
+    return NextResponse.json(
+      { error: 'Failed to create taxonomy term' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/taxonomy - Reorder the terms of a kind
+export async function PATCH(request: Request) {
+  try {
+    const { kind, ids } = await request.json()
+
+    if (!isTaxonomyKind(kind) || !Array.isArray(ids)) {
+      return NextResponse.json(
+        { error: 'A valid kind and the ordered term ids are required' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction(
+      ids.map((id: string, index: number) =>
+        prisma.taxonomyTerm.updateMany({
+          where: { id, kind },
+          data: { order: index },
+        })
+      )
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error reordering taxonomy:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder taxonomy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { syncTaxonomyFromAssets } from '@/lib/taxonomy'
+
+// POST /api/taxonomy/sync - Add a term for every value assets use that is not a term yet
+export async function POST() {
+  try {
+    const added = await prisma.$transaction(tx => syncTaxonomyFromAssets(tx))
+
+    return NextResponse.json({ success: true, added })
+  } catch (error) {
+    console.error('Error syncing taxonomy:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync taxonomy' },
+      { status: 500 }
+    )
+  }
+}
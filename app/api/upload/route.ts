@@ -1,56 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { put } from '@vercel/blob'
-import { writeFile, mkdir } from 'fs/promises'
-import { join } from 'path'
-import { v4 as uuidv4 } from 'uuid'
-
-// Check if we're in production (Vercel) or local development
-const isProduction = process.env.VERCEL === '1' || process.env.NODE_ENV === 'production'
+import { prisma } from '@/lib/db'
+import { saveUpload, hashContent } from '@/lib/uploads'
 
+// Store a file for a new asset. Identical files already in the library get a 409
+// with the existing asset, unless allowDuplicate is set
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
-    
+
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
-    // Generate unique filename
-    const ext = file.name.split('.').pop()
-    const uniqueName = `${uuidv4()}.${ext}`
-
-    let publicUrl: string
+    const buffer = Buffer.from(await file.arrayBuffer())
 
-    if (isProduction && process.env.BLOB_READ_WRITE_TOKEN) {
-      // Production: Use Vercel Blob
-      const blob = await put(uniqueName, file, {
-        access: 'public',
+    if (formData.get('allowDuplicate') !== 'true') {
+      const duplicate = await prisma.asset.findFirst({
+        where: { contentHash: hashContent(buffer) },
+        orderBy: { createdAt: 'asc' },
       })
-      publicUrl = blob.url
-    } else {
-      // Local development: Save to public/uploads
-      const bytes = await file.arrayBuffer()
-      const buffer = Buffer.from(bytes)
-      
-      const uploadDir = join(process.cwd(), 'public', 'uploads')
-      
-      // Ensure upload directory exists
-      try {
-        await mkdir(uploadDir, { recursive: true })
-      } catch {
-        // Directory might already exist
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'An identical file is already in the library', duplicate },
+          { status: 409 }
+        )
       }
-      
-      const filePath = join(uploadDir, uniqueName)
-      await writeFile(filePath, buffer)
-      
-      publicUrl = `/uploads/${uniqueName}`
     }
-    
+
+    // Store under a unique filename with the configured storage driver
+    const ext = file.name.split('.').pop() || 'bin'
+    const { url: publicUrl, contentHash } = await saveUpload(buffer, ext)
+
     return NextResponse.json({
       url: publicUrl,
       filename: file.name,
+      contentHash,
     })
   } catch (error) {
     console.error('Error uploading file:', error)
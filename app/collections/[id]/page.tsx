@@ -0,0 +1,316 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { useParams, useRouter } from 'next/navigation'
+import CollectionCard, { CollectionSummary } from '@/components/CollectionCard'
+import CollectionFormModal from '@/components/CollectionFormModal'
+
+interface Asset {
+  id: string
+  name: string
+  url: string
+  oem: string
+  screenType: string
+  format: string
+}
+
+interface CollectionItem {
+  id: string
+  assetId: string
+  order: number
+  asset: Asset
+}
+
+interface CollectionDetail {
+  id: string
+  name: string
+  description: string | null
+  parentId: string | null
+  coverAssetId: string | null
+  items: CollectionItem[]
+  children: CollectionSummary[]
+}
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [collection, setCollection] = useState<CollectionDetail | null>(null)
+  const [path, setPath] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [showEditModal, setShowEditModal] = useState(false)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const fetchCollection = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/collections/${id}`)
+      if (res.status === 404) {
+        setNotFound(true)
+        return
+      }
+      if (res.ok) {
+        const data = await res.json()
+        setCollection(data.collection)
+        setPath(data.path)
+      }
+    } catch (error) {
+      console.error('Error fetching collection:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    fetchCollection()
+  }, [fetchCollection])
+
+  const handleDelete = async () => {
+    if (!collection) return
+    try {
+      const res = await fetch(`/api/collections/${collection.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        router.push(collection.parentId ? `/collections/${collection.parentId}` : '/collections')
+      }
+    } catch (error) {
+      console.error('Error deleting collection:', error)
+    }
+  }
+
+  const handleRemove = async (assetId: string) => {
+    if (!collection) return
+    setCollection({ ...collection, items: collection.items.filter(item => item.assetId !== assetId) })
+    await fetch(`/api/collections/${collection.id}/items/${assetId}`, { method: 'DELETE' })
+    fetchCollection()
+  }
+
+  const handleSetCover = async (assetId: string) => {
+    if (!collection) return
+    setCollection({ ...collection, coverAssetId: assetId })
+    await fetch(`/api/collections/${collection.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ coverAssetId: assetId }),
+    })
+  }
+
+  const handleDrop = async () => {
+    if (!collection || draggedIndex === null || dropIndex === null || draggedIndex === dropIndex) {
+      setDraggedIndex(null)
+      setDropIndex(null)
+      return
+    }
+
+    const items = [...collection.items]
+    const [moved] = items.splice(draggedIndex, 1)
+    items.splice(dropIndex, 0, moved)
+    setCollection({ ...collection, items })
+    setDraggedIndex(null)
+    setDropIndex(null)
+
+    await fetch(`/api/collections/${collection.id}/items`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assetIds: items.map(item => item.assetId) }),
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (notFound || !collection) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-slate-400">Collection not found</p>
+        <Link href="/collections" className="text-violet-400 hover:text-violet-300 text-sm">
+          ← Back to Collections
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Breadcrumb */}
+        <nav className="flex items-center gap-2 text-sm text-slate-400 mb-4">
+          <Link href="/collections" className="hover:text-white transition-colors">Collections</Link>
+          {path.map(ancestor => (
+            <span key={ancestor.id} className="flex items-center gap-2">
+              <span>/</span>
+              <Link href={`/collections/${ancestor.id}`} className="hover:text-white transition-colors">
+                {ancestor.name}
+              </Link>
+            </span>
+          ))}
+        </nav>
+
+        <div className="flex items-start justify-between gap-4 mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">{collection.name}</h2>
+            {collection.description && (
+              <p className="text-slate-400">{collection.description}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-4 py-2 bg-slate-700/50 hover:bg-slate-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              New Sub-collection
+            </button>
+            <button
+              onClick={() => setShowEditModal(true)}
+              className="px-4 py-2 bg-violet-500/20 hover:bg-violet-500/30 text-violet-300 text-sm font-medium rounded-lg transition-colors"
+            >
+              Edit
+            </button>
+            {confirmDelete ? (
+              <>
+                <button
+                  onClick={() => setConfirmDelete(false)}
+                  className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  Delete Collection
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmDelete(true)}
+                className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium rounded-lg transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Sub-collections */}
+        {collection.children.length > 0 && (
+          <section className="mb-10">
+            <h3 className="text-sm font-medium text-slate-300 mb-4">Sub-collections</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              {collection.children.map(child => (
+                <CollectionCard key={child.id} collection={child} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Assets */}
+        <section>
+          <h3 className="text-sm font-medium text-slate-300 mb-4">
+            {collection.items.length} assets <span className="text-slate-500">• Drag to reorder</span>
+          </h3>
+          {collection.items.length === 0 ? (
+            <div className="py-16 text-center text-slate-400">
+              No assets yet. Use &quot;Add to collection&quot; on any asset in the{' '}
+              <Link href="/" className="text-violet-400 hover:text-violet-300">library</Link>.
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {collection.items.map((item, index) => (
+                <div
+                  key={item.id}
+                  draggable
+                  onDragStart={() => setDraggedIndex(index)}
+                  onDragOver={(e) => { e.preventDefault(); setDropIndex(index) }}
+                  onDrop={handleDrop}
+                  onDragEnd={() => { setDraggedIndex(null); setDropIndex(null) }}
+                  className={`group bg-slate-800/50 rounded-xl overflow-hidden border transition-all cursor-grab ${
+                    dropIndex === index && draggedIndex !== index
+                      ? 'border-violet-500'
+                      : 'border-slate-700/50'
+                  } ${draggedIndex === index ? 'opacity-40' : ''}`}
+                >
+                  <a
+                    href={item.asset.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block aspect-video relative bg-slate-900"
+                    draggable={false}
+                  >
+                    {VIDEO_FORMATS.includes(item.asset.format.toLowerCase()) ? (
+                      <video src={item.asset.url} className="w-full h-full object-cover" muted />
+                    ) : (
+                      <Image src={item.asset.url} alt={item.asset.name} fill className="object-cover" draggable={false} />
+                    )}
+                    <div className="absolute top-2 left-2 px-1.5 py-0.5 bg-black/60 rounded text-xs text-white/80">
+                      {index + 1}
+                    </div>
+                    {collection.coverAssetId === item.assetId && (
+                      <div className="absolute top-2 right-2 px-1.5 py-0.5 bg-violet-500/80 rounded text-xs text-white">
+                        Cover
+                      </div>
+                    )}
+                  </a>
+                  <div className="p-3 flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-white truncate">{item.asset.name}</p>
+                      <p className="text-xs text-slate-500 truncate">{item.asset.oem} • {item.asset.screenType}</p>
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {collection.coverAssetId !== item.assetId && (
+                        <button
+                          onClick={() => handleSetCover(item.assetId)}
+                          className="p-1.5 text-slate-400 hover:text-violet-400 transition-colors"
+                          title="Use as cover"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRemove(item.assetId)}
+                        className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                        title="Remove from collection"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+
+      {showEditModal && (
+        <CollectionFormModal
+          collection={collection}
+          onClose={() => setShowEditModal(false)}
+          onSaved={() => { setShowEditModal(false); fetchCollection() }}
+        />
+      )}
+
+      {showCreateModal && (
+        <CollectionFormModal
+          parentId={collection.id}
+          onClose={() => setShowCreateModal(false)}
+          onSaved={() => { setShowCreateModal(false); fetchCollection() }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import CollectionCard, { CollectionSummary } from '@/components/CollectionCard'
+import CollectionFormModal from '@/components/CollectionFormModal'
+
+export default function CollectionsPage() {
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const res = await fetch('/api/collections')
+      if (res.ok) {
+        const data = await res.json()
+        setCollections(data.collections)
+      }
+    } catch (error) {
+      console.error('Error fetching collections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections])
+
+  const handleCreated = () => {
+    setShowCreateModal(false)
+    fetchCollections()
+  }
+
+  const topLevel = collections.filter(collection => !collection.parentId)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        <div className="flex items-start justify-between mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Collections</h2>
+            <p className="text-slate-400">
+              Curated sets of assets, e.g. one per partner pitch.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-4 py-2 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl shadow-lg shadow-violet-500/25 hover:shadow-violet-500/40 transition-all flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Collection
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="aspect-video bg-slate-800/50 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : topLevel.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <div className="w-20 h-20 rounded-full bg-slate-800 flex items-center justify-center mb-6">
+              <svg className="w-10 h-10 text-slate-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+              </svg>
+            </div>
+            <h3 className="text-xl font-semibold text-white mb-2">No collections yet</h3>
+            <p className="text-slate-400 mb-6 max-w-md">
+              Create a collection, then add assets to it from the library.
+            </p>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-6 py-3 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl shadow-lg shadow-violet-500/25 hover:shadow-violet-500/40 transition-all"
+            >
+              Create Your First Collection
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {topLevel.map(collection => (
+              <CollectionCard key={collection.id} collection={collection} />
+            ))}
+          </div>
+        )}
+      </main>
+
+      {showCreateModal && (
+        <CollectionFormModal
+          onClose={() => setShowCreateModal(false)}
+          onSaved={handleCreated}
+        />
+      )}
+    </div>
+  )
+}
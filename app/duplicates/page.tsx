@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import BulkDeleteModal from '@/components/BulkDeleteModal'
+
+interface DuplicateAsset {
+  id: string
+  name: string
+  url: string
+  thumbnailSmallUrl: string | null
+  format: string
+  size: number
+  oem: string
+  screenType: string
+  createdAt: string
+}
+
+interface DuplicateGroup {
+  assets: DuplicateAsset[]
+  similarity: number
+}
+
+interface DuplicatesReport {
+  minSimilarity: number
+  groups: DuplicateGroup[]
+  pending: number
+}
+
+const THRESHOLDS = [
+  { value: 1, label: 'Look identical' },
+  { value: 0.95, label: '95% similar' },
+  { value: 0.9, label: '90% similar' },
+  { value: 0.85, label: '85% similar' },
+  { value: 0.8, label: '80% similar' },
+]
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB'
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+}
+
+export default function DuplicatesPage() {
+  const [minSimilarity, setMinSimilarity] = useState(0.9)
+  const [report, setReport] = useState<DuplicatesReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [showDeleteModal, setShowDeleteModal] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/assets/duplicates?min=${minSimilarity}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Failed to load duplicates')))
+      .then(data => setReport(data))
+      .catch(err => setError(err.message))
+  }, [minSimilarity])
+
+  // Only show the report for the threshold currently picked
+  const current = report?.minSimilarity === minSimilarity ? report : null
+
+  const handleThresholdChange = (value: number) => {
+    setMinSimilarity(value)
+    setSelectedIds(new Set())
+    setError(null)
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleDeleted = (ids: string[]) => {
+    const deleted = new Set(ids)
+    setShowDeleteModal(false)
+    setSelectedIds(new Set())
+    setReport(prev => prev && {
+      ...prev,
+      groups: prev.groups
+        .map(group => ({ ...group, assets: group.assets.filter(asset => !deleted.has(asset.id)) }))
+        .filter(group => group.assets.length > 1),
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        <div className="flex items-start justify-between gap-4 mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Near-Duplicates</h2>
+            <p className="text-slate-400">
+              Assets that look alike, like the same screen with a small copy change.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={minSimilarity}
+              onChange={(e) => handleThresholdChange(Number(e.target.value))}
+              className="px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-xl text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 cursor-pointer"
+            >
+              {THRESHOLDS.map(option => (
+                <option key={option.value} value={option.value} className="bg-slate-900">{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowDeleteModal(true)}
+              disabled={selectedIds.size === 0}
+              className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium rounded-xl transition-colors disabled:opacity-50"
+            >
+              Delete {selectedIds.size > 0 ? selectedIds.size : ''} Selected
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 rounded-lg text-sm bg-red-500/20 text-red-300">
+            {error}
+          </div>
+        )}
+
+        {current && current.pending > 0 && (
+          <div className="mb-6 p-3 rounded-lg text-sm bg-amber-500/10 border border-amber-500/30 text-amber-300">
+            {current.pending} asset{current.pending !== 1 ? 's are' : ' is'} still being analysed, so some duplicates may be missing. Reload in a moment.
+          </div>
+        )}
+
+        {!current ? (
+          !error && <p className="text-slate-400">Comparing assets...</p>
+        ) : current.groups.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-lg font-medium text-white mb-1">No near-duplicates found</p>
+            <p className="text-slate-400">Try a lower similarity threshold.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-slate-400">
+              {current.groups.length} group{current.groups.length !== 1 ? 's' : ''}, oldest asset first in each. Select the copies to delete.
+            </p>
+            {current.groups.map(group => (
+              <div key={group.assets[0].id} className="p-4 bg-slate-800/50 rounded-2xl border border-slate-700/50">
+                <p className="text-sm text-slate-300 mb-3">
+                  {group.assets.length} assets • at least {Math.round(group.similarity * 100)}% similar
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                  {group.assets.map(asset => {
+                    const selected = selectedIds.has(asset.id)
+                    return (
+                      <button
+                        key={asset.id}
+                        onClick={() => toggleSelected(asset.id)}
+                        className={`text-left rounded-xl overflow-hidden bg-slate-900/50 border transition-all ${
+                          selected ? 'border-red-500 ring-2 ring-red-500/50' : 'border-slate-700/50 hover:border-violet-500/50'
+                        }`}
+                      >
+                        <div className="relative aspect-[4/3] bg-slate-900">
+                          {asset.thumbnailSmallUrl ? (
+                            <Image src={asset.thumbnailSmallUrl} alt={asset.name} fill className="object-cover" sizes="240px" />
+                          ) : VIDEO_FORMATS.includes(asset.format.toLowerCase()) ? (
+                            <video src={asset.url} className="w-full h-full object-cover" muted />
+                          ) : (
+                            <Image src={asset.url} alt={asset.name} fill className="object-cover" sizes="240px" />
+                          )}
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            readOnly
+                            className="absolute top-2 left-2 w-4 h-4 accent-red-500 pointer-events-none"
+                          />
+                        </div>
+                        <div className="p-2">
+                          <p className="text-sm text-white truncate" title={asset.name}>{asset.name}</p>
+                          <p className="text-xs text-slate-500 truncate">
+                            {asset.oem} • {asset.format.toUpperCase()} • {formatFileSize(asset.size)}
+                          </p>
+                          <p className="text-xs text-slate-500">{new Date(asset.createdAt).toLocaleDateString()}</p>
+                        </div>
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {showDeleteModal && (
+        <BulkDeleteModal
+          assetIds={[...selectedIds]}
+          onClose={() => setShowDeleteModal(false)}
+          onDeleted={handleDeleted}
+        />
+      )}
+    </div>
+  )
+}
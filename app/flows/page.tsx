@@ -5,6 +5,7 @@ import Link from 'next/link'
 import FlowCard from '@/components/FlowCard'
 import FlowViewer from '@/components/FlowViewer'
 import CreateFlowModal from '@/components/CreateFlowModal'
+import FlowHistoryModal from '@/components/FlowHistoryModal'
 
 interface Asset {
   id: string
@@ -18,6 +19,8 @@ interface FlowFrame {
   assetId: string
   order: number
   delay: number
+  transition: string
+  transitionDuration: number
   asset: Asset
 }
 
@@ -34,6 +37,8 @@ export default function FlowsPage() {
   const [loading, setLoading] = useState(true)
   const [selectedFlow, setSelectedFlow] = useState<Flow | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [editingFlow, setEditingFlow] = useState<Flow | null>(null)
+  const [historyFlow, setHistoryFlow] = useState<Flow | null>(null)
 
   const fetchFlows = useCallback(async () => {
     try {
@@ -60,6 +65,11 @@ export default function FlowsPage() {
     fetchFlows()
   }
 
+  const handleFlowEdited = () => {
+    setEditingFlow(null)
+    fetchFlows()
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
       {/* Header */}
@@ -90,6 +100,12 @@ export default function FlowsPage() {
                 >
                   Flows
                 </Link>
+                <Link 
+                  href="/collections" 
+                  className="text-slate-400 hover:text-white transition-colors text-sm font-medium"
+                >
+                  Collections
+                </Link>
                 <Link 
                   href="/upload" 
                   className="text-slate-400 hover:text-white transition-colors text-sm font-medium"
@@ -157,6 +173,8 @@ export default function FlowsPage() {
                 key={flow.id}
                 flow={flow}
                 onClick={() => setSelectedFlow(flow)}
+                onEdit={() => setEditingFlow(flow)}
+                onHistory={() => setHistoryFlow(flow)}
                 onDelete={handleFlowDeleted}
               />
             ))}
@@ -169,6 +187,7 @@ export default function FlowsPage() {
         <FlowViewer
           flow={selectedFlow}
           onClose={() => setSelectedFlow(null)}
+          onHotspotsChange={fetchFlows}
         />
       )}
 
@@ -180,6 +199,25 @@ export default function FlowsPage() {
           onSuccess={handleFlowCreated}
         />
       )}
+
+      {/* Edit Flow Modal */}
+      {editingFlow && (
+        <CreateFlowModal
+          isOpen={!!editingFlow}
+          flow={editingFlow}
+          onClose={() => setEditingFlow(null)}
+          onSuccess={handleFlowEdited}
+        />
+      )}
+
+      {/* Flow History Modal */}
+      {historyFlow && (
+        <FlowHistoryModal
+          flow={historyFlow}
+          onClose={() => setHistoryFlow(null)}
+          onRestored={fetchFlows}
+        />
+      )}
     </div>
   )
 }
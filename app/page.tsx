@@ -1,8 +1,16 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { Suspense, useState, useEffect, useCallback, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
 import SearchFilter from '@/components/SearchFilter'
 import AssetGrid from '@/components/AssetGrid'
+import BulkActionBar from '@/components/BulkActionBar'
+import {
+  assetFiltersFromParams,
+  assetFiltersToParams,
+  type AssetFacets,
+  type AssetFilters,
+} from '@/lib/asset-query'
 
 interface Asset {
   id: string
@@ -13,50 +21,150 @@ interface Asset {
   screenType: string
   assetType: string
   description?: string
+  tags?: { id: string; name: string }[]
   format: string
   size: number
   createdAt: string
+  updatedAt: string
 }
 
-export default function Home() {
+function Library() {
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
   const [assets, setAssets] = useState<Asset[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [filters, setFilters] = useState({ search: '', oem: '', screenType: '', assetType: '' })
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<AssetFacets | null>(null)
+  const [filters, setFilters] = useState<AssetFilters>(() => assetFiltersFromParams(searchParams))
+  const [urlQuery, setUrlQuery] = useState(query)
+  const [saveName, setSaveName] = useState<string | null>(null)
+  const [savingSearch, setSavingSearch] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Last asset clicked without shift, where shift-click ranges start
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null)
+  // Ignores pages that arrive after the filters have changed
+  const requestRef = useRef(0)
+
+  // Adopt the URL's filters when it changes from outside, e.g. a saved search or the back button
+  if (query !== urlQuery) {
+    setUrlQuery(query)
+    if (query !== assetFiltersToParams(filters).toString()) {
+      setFilters(assetFiltersFromParams(searchParams))
+      setSelectedIds(new Set())
+    }
+  }
+
+  const buildParams = useCallback((cursor?: string) => {
+    const params = assetFiltersToParams(filters)
+    if (cursor) params.set('cursor', cursor)
+    return params
+  }, [filters])
 
   const fetchAssets = useCallback(async () => {
+    const request = ++requestRef.current
     setIsLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (filters.search) params.set('search', filters.search)
-      if (filters.oem) params.set('oem', filters.oem)
-      if (filters.screenType) params.set('screenType', filters.screenType)
-      if (filters.assetType) params.set('assetType', filters.assetType)
-
-      const res = await fetch(`/api/assets?${params.toString()}`)
-      if (res.ok) {
+      const res = await fetch(`/api/assets?${buildParams().toString()}`)
+      if (res.ok && request === requestRef.current) {
         const data = await res.json()
-        setAssets(data)
+        setAssets(data.assets)
+        setNextCursor(data.nextCursor)
+        setTotal(data.total)
+        setFacets(data.facets)
       }
     } catch (error) {
       console.error('Error fetching assets:', error)
     } finally {
-      setIsLoading(false)
+      if (request === requestRef.current) setIsLoading(false)
     }
-  }, [filters])
+  }, [buildParams])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    const request = requestRef.current
+    setIsLoadingMore(true)
+    try {
+      const res = await fetch(`/api/assets?${buildParams(nextCursor).toString()}`)
+      if (res.ok && request === requestRef.current) {
+        const data = await res.json()
+        setAssets(prev => [...prev, ...data.assets])
+        setNextCursor(data.nextCursor)
+      }
+    } catch (error) {
+      console.error('Error fetching more assets:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [buildParams, nextCursor, isLoadingMore])
 
   useEffect(() => {
     fetchAssets()
   }, [fetchAssets])
 
-  const handleFilterChange = useCallback((newFilters: { search: string; oem: string; screenType: string; assetType: string }) => {
+  const handleFilterChange = useCallback((newFilters: AssetFilters) => {
     setFilters(newFilters)
+    setSelectedIds(new Set())
+    // Keep the URL shareable without a navigation per keystroke
+    const params = assetFiltersToParams(newFilters).toString()
+    window.history.replaceState(null, '', params ? `/?${params}` : '/')
   }, [])
 
+  const handleToggleSelect = (id: string, extend: boolean) => {
+    const anchorIndex = assets.findIndex(asset => asset.id === selectionAnchor)
+    const index = assets.findIndex(asset => asset.id === id)
+
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (extend && anchorIndex !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+        assets.slice(from, to + 1).forEach(asset => next.add(asset.id))
+      } else if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+    if (!extend) setSelectionAnchor(id)
+  }
+
+  const handleBulkDeleted = (ids: string[]) => {
+    const deleted = new Set(ids)
+    setAssets(prev => prev.filter(asset => !deleted.has(asset.id)))
+    setTotal(prev => prev - ids.length)
+    setSelectedIds(new Set())
+  }
+
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!saveName?.trim()) return
+
+    setSavingSearch(true)
+    try {
+      const res = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: saveName.trim(), query: assetFiltersToParams(filters).toString() }),
+      })
+      if (res.ok) {
+        setSaveName(null)
+      }
+    } catch (error) {
+      console.error('Error saving search:', error)
+    } finally {
+      setSavingSearch(false)
+    }
+  }
+
   const handleDelete = async (id: string) => {
     try {
       const res = await fetch(`/api/assets/${id}`, { method: 'DELETE' })
       if (res.ok) {
         setAssets(prev => prev.filter(asset => asset.id !== id))
+        setTotal(prev => prev - 1)
       }
     } catch (error) {
       console.error('Error deleting asset:', error)
@@ -65,18 +173,84 @@ export default function Home() {
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-8">
-      <div className="mb-8">
-        <h2 className="text-2xl font-bold text-white mb-2">Asset Library</h2>
-        <p className="text-slate-400">
-          {isLoading ? 'Loading...' : `${assets.length} asset${assets.length !== 1 ? 's' : ''} found`}
-        </p>
+      <div className="flex items-end justify-between gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Asset Library</h2>
+          <p className="text-slate-400">
+            {isLoading ? 'Loading...' : `${total} asset${total !== 1 ? 's' : ''} found`}
+          </p>
+        </div>
+
+        {/* Save the current filters as a named view */}
+        {saveName !== null ? (
+          <form onSubmit={handleSaveSearch} className="flex items-center gap-2">
+            <input
+              type="text"
+              autoFocus
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Name this search"
+              className="px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+            />
+            <button
+              type="button"
+              onClick={() => setSaveName(null)}
+              className="px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={savingSearch || !saveName.trim()}
+              className="px-3 py-2 bg-violet-600 hover:bg-violet-500 text-white text-sm rounded-lg font-medium transition-all disabled:opacity-50"
+            >
+              {savingSearch ? 'Saving...' : 'Save'}
+            </button>
+          </form>
+        ) : query && (
+          <button
+            onClick={() => setSaveName('')}
+            className="px-4 py-2 bg-slate-700/50 hover:bg-slate-600/50 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+            Save search
+          </button>
+        )}
       </div>
 
       <div className="mb-8">
-        <SearchFilter onFilterChange={handleFilterChange} />
+        <SearchFilter filters={filters} onFilterChange={handleFilterChange} facets={facets} />
       </div>
 
-      <AssetGrid assets={assets} isLoading={isLoading} onDelete={handleDelete} />
+      <AssetGrid
+        assets={assets}
+        isLoading={isLoading}
+        onDelete={handleDelete}
+        hasMore={nextCursor !== null}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMore}
+        selectedIds={selectedIds}
+        onToggleSelect={handleToggleSelect}
+      />
+
+      <BulkActionBar
+        selectedIds={assets.filter(asset => selectedIds.has(asset.id)).map(asset => asset.id)}
+        allSelected={assets.every(asset => selectedIds.has(asset.id))}
+        onSelectAll={() => setSelectedIds(new Set(assets.map(asset => asset.id)))}
+        onClear={() => setSelectedIds(new Set())}
+        onUpdated={() => { setSelectedIds(new Set()); fetchAssets() }}
+        onDeleted={handleBulkDeleted}
+      />
     </div>
   )
 }
+
+export default function Home() {
+  return (
+    <Suspense fallback={null}>
+      <Library />
+    </Suspense>
+  )
+}
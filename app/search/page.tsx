@@ -0,0 +1,217 @@
+'use client'
+
+import { Suspense, useState, useEffect } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { useRouter, useSearchParams } from 'next/navigation'
+
+interface Highlight {
+  field: string
+  text: string
+  ranges: Array<[number, number]>
+}
+
+interface AssetResult {
+  id: string
+  name: string
+  url: string
+  format: string
+  oem: string
+  screenType: string
+  highlights: Highlight[]
+}
+
+interface FlowResult {
+  id: string
+  name: string
+  description: string | null
+  _count: { frames: number }
+  highlights: Highlight[]
+}
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  oem: 'OEM',
+  screenType: 'Screen type',
+  assetType: 'Asset type',
+  tags: 'Tags',
+  fileName: 'Figma file',
+  frameName: 'Figma frame',
+}
+
+function HighlightedText({ highlight }: { highlight: Highlight }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of highlight.ranges) {
+    if (start > cursor) parts.push(highlight.text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-violet-500/30 text-violet-100 rounded px-0.5">
+        {highlight.text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < highlight.text.length) parts.push(highlight.text.slice(cursor))
+  return <>{parts}</>
+}
+
+// Name with matches marked, followed by the other fields that matched
+function MatchDetails({ name, highlights }: { name: string; highlights: Highlight[] }) {
+  const nameHighlight = highlights.find(highlight => highlight.field === 'name')
+  const others = highlights.filter(highlight => highlight.field !== 'name')
+
+  return (
+    <div className="min-w-0">
+      <p className="text-sm font-medium text-white truncate">
+        {nameHighlight ? <HighlightedText highlight={nameHighlight} /> : name}
+      </p>
+      {others.map(highlight => (
+        <p key={highlight.field} className="text-xs text-slate-400 truncate">
+          <span className="text-slate-500">{FIELD_LABELS[highlight.field] || highlight.field}: </span>
+          <HighlightedText highlight={highlight} />
+        </p>
+      ))}
+    </div>
+  )
+}
+
+function SearchResults() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const query = searchParams.get('q') || ''
+  const [input, setInput] = useState(query)
+  const [results, setResults] = useState<{ query: string; assets: AssetResult[]; flows: FlowResult[] } | null>(null)
+
+  // Keep the URL in step with the input so results can be shared
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (input.trim() !== query) {
+        router.replace(input.trim() ? `/search?q=${encodeURIComponent(input.trim())}` : '/search')
+      }
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [input, query, router])
+
+  useEffect(() => {
+    if (!query) return
+
+    let cancelled = false
+    fetch(`/api/search?q=${encodeURIComponent(query)}`)
+      .then(res => res.ok ? res.json() : { assets: [], flows: [] })
+      .then(data => {
+        if (!cancelled) setResults({ query, assets: data.assets, flows: data.flows })
+      })
+      .catch(error => {
+        console.error('Error searching:', error)
+        if (!cancelled) setResults({ query, assets: [], flows: [] })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [query])
+
+  // Results for an earlier query are stale until the new ones arrive
+  const current = results?.query === query ? results : null
+  const loading = Boolean(query) && !current
+  const assets = current?.assets || []
+  const flows = current?.flows || []
+
+  return (
+    <>
+      <div className="relative mb-8">
+        <svg className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          type="text"
+          autoFocus
+          placeholder="Search assets and flows..."
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="w-full pl-12 pr-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !query ? (
+        <p className="text-center text-slate-400 py-16">
+          Search names, descriptions, OEMs, screen types, tags, Figma files and flows.
+        </p>
+      ) : assets.length === 0 && flows.length === 0 ? (
+        <p className="text-center text-slate-400 py-16">No results for &quot;{query}&quot;</p>
+      ) : (
+        <div className="space-y-10">
+          {assets.length > 0 && (
+            <section>
+              <h3 className="text-sm font-medium text-slate-300 mb-4">Assets ({assets.length})</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {assets.map(asset => (
+                  <a
+                    key={asset.id}
+                    href={asset.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-4 p-3 bg-slate-800/50 rounded-xl border border-slate-700/50 hover:border-violet-500/50 transition-colors"
+                  >
+                    <div className="relative w-24 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-slate-900">
+                      {VIDEO_FORMATS.includes(asset.format.toLowerCase()) ? (
+                        <video src={asset.url} className="w-full h-full object-cover" muted />
+                      ) : (
+                        <Image src={asset.url} alt={asset.name} fill className="object-cover" />
+                      )}
+                    </div>
+                    <MatchDetails name={asset.name} highlights={asset.highlights} />
+                  </a>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {flows.length > 0 && (
+            <section>
+              <h3 className="text-sm font-medium text-slate-300 mb-4">Flows ({flows.length})</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {flows.map(flow => (
+                  <Link
+                    key={flow.id}
+                    href="/flows"
+                    className="flex items-center gap-4 p-3 bg-slate-800/50 rounded-xl border border-slate-700/50 hover:border-violet-500/50 transition-colors"
+                  >
+                    <div className="w-10 h-10 rounded-lg bg-violet-500/20 flex items-center justify-center flex-shrink-0">
+                      <svg className="w-5 h-5 text-violet-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <MatchDetails name={flow.name} highlights={flow.highlights} />
+                    <span className="ml-auto text-xs text-slate-500 flex-shrink-0">{flow._count.frames} frames</span>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
+
+export default function SearchPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <h2 className="text-2xl font-bold text-white mb-6">Search</h2>
+        <Suspense fallback={null}>
+          <SearchResults />
+        </Suspense>
+      </main>
+    </div>
+  )
+}
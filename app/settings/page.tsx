@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
+import FigmaSyncPanel from '@/components/FigmaSyncPanel'
+import StorageCleanupPanel from '@/components/StorageCleanupPanel'
 
 export default function SettingsPage() {
   const [figmaToken, setFigmaToken] = useState('')
@@ -239,6 +241,40 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Figma Sync */}
+        <FigmaSyncPanel />
+
+        {/* Storage Cleanup */}
+        <StorageCleanupPanel />
+
+        {/* Taxonomy */}
+        <Link
+          href="/settings/taxonomy"
+          className="mt-6 flex items-center justify-between px-6 py-4 bg-slate-800/50 rounded-2xl border border-slate-700/50 hover:border-violet-500/50 transition-colors"
+        >
+          <div>
+            <h3 className="text-lg font-semibold text-white">Taxonomy</h3>
+            <p className="text-sm text-slate-400">Manage OEMs, screen types and asset types</p>
+          </div>
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </Link>
+
+        {/* Near-duplicates */}
+        <Link
+          href="/duplicates"
+          className="mt-6 flex items-center justify-between px-6 py-4 bg-slate-800/50 rounded-2xl border border-slate-700/50 hover:border-violet-500/50 transition-colors"
+        >
+          <div>
+            <h3 className="text-lg font-semibold text-white">Near-Duplicates</h3>
+            <p className="text-sm text-slate-400">Find assets that look alike and clean up copies</p>
+          </div>
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </Link>
+
         {/* Instructions */}
         <div className="mt-6 p-4 bg-slate-800/30 border border-slate-700/50 rounded-xl">
           <h4 className="text-sm font-medium text-slate-300 mb-2">How to get a new token:</h4>
@@ -0,0 +1,317 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { TAXONOMY_KINDS, TAXONOMY_LABELS, TaxonomyKind } from '@/lib/taxonomy'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+
+interface Term {
+  id: string
+  kind: TaxonomyKind
+  value: string
+  order: number
+  assetCount: number
+}
+
+interface TaxonomySectionProps {
+  kind: TaxonomyKind
+  terms: Term[]
+  onChange: () => Promise<void>
+  onError: (message: string | null) => void
+}
+
+async function request(url: string, init: RequestInit) {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
+function TaxonomySection({ kind, terms, onChange, onError }: TaxonomySectionProps) {
+  const labels = TAXONOMY_LABELS[kind]
+  const [newValue, setNewValue] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState('')
+  const [mergingId, setMergingId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    onError(null)
+    try {
+      await action()
+      await onChange()
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newValue.trim()) return
+    run(async () => {
+      await request('/api/taxonomy', {
+        method: 'POST',
+        body: JSON.stringify({ kind, value: newValue.trim() }),
+      })
+      setNewValue('')
+    })
+  }
+
+  const handleRename = (term: Term, value: string) => {
+    if (!value.trim() || value.trim() === term.value) {
+      setEditingId(null)
+      return
+    }
+    run(async () => {
+      await request(`/api/taxonomy/${term.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ value: value.trim() }),
+      })
+      setEditingId(null)
+      setMergingId(null)
+    })
+  }
+
+  const handleDelete = (term: Term) => {
+    run(() => request(`/api/taxonomy/${term.id}`, { method: 'DELETE' }))
+  }
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = terms.map(term => term.id)
+    const target = index + direction
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    run(() => request('/api/taxonomy', {
+      method: 'PATCH',
+      body: JSON.stringify({ kind, ids }),
+    }))
+  }
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700/50">
+        <h3 className="text-lg font-semibold text-white">{labels.plural}</h3>
+        <p className="text-sm text-slate-400">{terms.length} terms</p>
+      </div>
+
+      <div className="p-4 space-y-1">
+        {terms.map((term, index) => (
+          <div
+            key={term.id}
+            className="group flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-slate-700/30"
+          >
+            <div className="flex flex-col">
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={busy || index === 0}
+                className="text-slate-500 hover:text-white disabled:opacity-20 transition-colors"
+                title="Move up"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={busy || index === terms.length - 1}
+                className="text-slate-500 hover:text-white disabled:opacity-20 transition-colors"
+                title="Move down"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+            </div>
+
+            {editingId === term.id ? (
+              <input
+                autoFocus
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onBlur={() => handleRename(term, editValue)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename(term, editValue)
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                className="flex-1 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+              />
+            ) : mergingId === term.id ? (
+              <select
+                autoFocus
+                defaultValue=""
+                onChange={(e) => handleRename(term, e.target.value)}
+                onBlur={() => setMergingId(null)}
+                className="flex-1 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+              >
+                <option value="" disabled>Merge &quot;{term.value}&quot; into...</option>
+                {terms.filter(t => t.id !== term.id).map(t => (
+                  <option key={t.id} value={t.value}>{t.value}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="flex-1 text-sm text-white truncate">{term.value}</span>
+            )}
+
+            <span className="text-xs text-slate-500 whitespace-nowrap">{term.assetCount} assets</span>
+
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => { setEditingId(term.id); setEditValue(term.value); setMergingId(null) }}
+                disabled={busy}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-violet-400 transition-colors"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => { setMergingId(term.id); setEditingId(null) }}
+                disabled={busy || terms.length < 2}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-violet-400 transition-colors disabled:opacity-50"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleDelete(term)}
+                disabled={busy || term.assetCount > 0}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                title={term.assetCount > 0 ? 'In use, merge it into another term instead' : 'Delete'}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2 px-4 pb-4">
+        <input
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          placeholder={`New ${labels.singular.toLowerCase()}`}
+          className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+        />
+        <button
+          type="submit"
+          disabled={busy || !newValue.trim()}
+          className="px-4 py-2 bg-violet-600 hover:bg-violet-500 text-white text-sm rounded-lg font-medium transition-all disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default function TaxonomySettingsPage() {
+  const [terms, setTerms] = useState<Term[]>([])
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const { refresh } = useTaxonomy()
+
+  const fetchTerms = useCallback(async () => {
+    try {
+      const data = await request('/api/taxonomy?counts=true', { method: 'GET' })
+      setTerms(data.terms)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load taxonomy')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTerms()
+  }, [fetchTerms])
+
+  // Keep the cached dropdown options in step with the edits made here
+  const handleChange = useCallback(async () => {
+    await fetchTerms()
+    await refresh()
+  }, [fetchTerms, refresh])
+
+  const handleSync = async () => {
+    setSyncing(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const data = await request('/api/taxonomy/sync', { method: 'POST' })
+      setMessage(data.added > 0 ? `Added ${data.added} values used by assets` : 'Every value used by assets is already a term')
+      await handleChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync taxonomy')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-violet-950">
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-start justify-between mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Taxonomy</h2>
+            <p className="text-slate-400">
+              Manage the OEMs, screen types and asset types offered in uploads and filters.
+              Renaming a term updates every asset that uses it.
+            </p>
+          </div>
+          <button
+            onClick={handleSync}
+            disabled={syncing}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-xl font-medium transition-all disabled:opacity-50 whitespace-nowrap"
+          >
+            {syncing ? 'Importing...' : 'Import Values from Assets'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 rounded-lg text-sm bg-red-500/20 text-red-300">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 p-3 rounded-lg text-sm bg-emerald-500/20 text-emerald-300">
+            {message}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+            {TAXONOMY_KINDS.map(kind => (
+              <TaxonomySection
+                key={kind}
+                kind={kind}
+                terms={terms.filter(term => term.kind === kind)}
+                onChange={handleChange}
+                onError={setError}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Back to Settings */}
+        <div className="mt-8 text-center">
+          <Link
+            href="/settings"
+            className="text-slate-400 hover:text-white transition-colors text-sm"
+          >
+            ← Back to Settings
+          </Link>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,16 +1,21 @@
 import UploadForm from '@/components/UploadForm'
+import ZipImportPanel from '@/components/ZipImportPanel'
 
 export default function UploadPage() {
   return (
     <div className="max-w-7xl mx-auto px-6 py-8">
       <div className="mb-8 text-center">
-        <h2 className="text-2xl font-bold text-white mb-2">Upload New Asset</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">Upload Assets</h2>
         <p className="text-slate-400">
-          Add images, screenshots, or GIFs to your library
+          Add images, screenshots, or GIFs to your library, one file or dozens at a time
         </p>
       </div>
 
       <UploadForm />
+
+      <div className="mt-12">
+        <ZipImportPanel />
+      </div>
     </div>
   )
 }
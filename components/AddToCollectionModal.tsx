@@ -0,0 +1,206 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface CollectionOption {
+  id: string
+  name: string
+  parentId: string | null
+  containsAsset: boolean
+  _count: { items: number }
+}
+
+interface AddToCollectionModalProps {
+  asset: { id: string; name: string }
+  onClose: () => void
+}
+
+// Flatten the collection tree depth-first so sub-collections follow their parent
+function flattenTree(collections: CollectionOption[]) {
+  const byParent = new Map<string | null, CollectionOption[]>()
+  for (const collection of collections) {
+    const siblings = byParent.get(collection.parentId) || []
+    siblings.push(collection)
+    byParent.set(collection.parentId, siblings)
+  }
+
+  const rows: Array<{ collection: CollectionOption; depth: number }> = []
+  const visit = (parentId: string | null, depth: number) => {
+    for (const collection of byParent.get(parentId) || []) {
+      rows.push({ collection, depth })
+      visit(collection.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return rows
+}
+
+export default function AddToCollectionModal({ asset, onClose }: AddToCollectionModalProps) {
+  const [collections, setCollections] = useState<CollectionOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/collections?assetId=${asset.id}`)
+      if (res.ok) {
+        const data = await res.json()
+        setCollections(data.collections)
+      }
+    } catch (err) {
+      console.error('Error fetching collections:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [asset.id])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections])
+
+  const handleToggle = async (collection: CollectionOption) => {
+    setPendingId(collection.id)
+    setError(null)
+
+    try {
+      const res = collection.containsAsset
+        ? await fetch(`/api/collections/${collection.id}/items/${asset.id}`, { method: 'DELETE' })
+        : await fetch(`/api/collections/${collection.id}/items`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ assetIds: [asset.id] }),
+          })
+
+      if (!res.ok) {
+        throw new Error('Failed to update collection')
+      }
+
+      setCollections(prev => prev.map(c =>
+        c.id === collection.id
+          ? {
+              ...c,
+              containsAsset: !c.containsAsset,
+              _count: { items: c._count.items + (c.containsAsset ? -1 : 1) },
+            }
+          : c
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update collection')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+
+    setCreating(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), assetIds: [asset.id] }),
+      })
+
+      if (!res.ok) {
+        throw new Error('Failed to create collection')
+      }
+
+      setNewName('')
+      await fetchCollections()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const rows = flattenTree(collections)
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-slate-800 rounded-2xl w-full max-w-sm shadow-2xl border border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <div className="min-w-0">
+            <h3 className="text-base font-semibold text-white">Add to Collection</h3>
+            <p className="text-xs text-slate-400 truncate">{asset.name}</p>
+          </div>
+          <button
+            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+            onClick={onClose}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-3 p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="p-3 max-h-72 overflow-y-auto space-y-1">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6">No collections yet</p>
+          ) : (
+            rows.map(({ collection, depth }) => (
+              <button
+                key={collection.id}
+                onClick={() => handleToggle(collection)}
+                disabled={pendingId !== null}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left hover:bg-slate-700/50 transition-colors disabled:opacity-60"
+                style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+              >
+                <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 ${
+                  collection.containsAsset ? 'bg-violet-500 border-violet-500' : 'border-slate-500'
+                }`}>
+                  {collection.containsAsset && (
+                    <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </span>
+                <span className="flex-1 text-sm text-white truncate">{collection.name}</span>
+                <span className="text-xs text-slate-500">{collection._count.items}</span>
+              </button>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2 px-3 py-3 border-t border-slate-700">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection"
+            className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+          />
+          <button
+            type="submit"
+            disabled={creating || !newName.trim()}
+            className="px-3 py-2 bg-violet-600 hover:bg-violet-500 text-white text-sm rounded-lg font-medium transition-all disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : 'Create'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface FlowOption {
+  id: string
+  name: string
+  frames: unknown[]
+}
+
+interface AddToFlowModalProps {
+  assetIds: string[]
+  onClose: () => void
+  onAdded: () => void
+}
+
+const NEW_FLOW = 'new'
+
+export default function AddToFlowModal({ assetIds, onClose, onAdded }: AddToFlowModalProps) {
+  const [flows, setFlows] = useState<FlowOption[] | null>(null)
+  const [target, setTarget] = useState(NEW_FLOW)
+  const [newName, setNewName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/flows')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Failed to load flows')))
+      .then(data => setFlows(data.flows))
+      .catch(err => setError(err.message))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (target === NEW_FLOW && !newName.trim()) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      // New flows go through the regular create route, which records the first version
+      const res = target === NEW_FLOW
+        ? await fetch('/api/flows', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              name: newName.trim(),
+              frames: assetIds.map(assetId => ({ assetId })),
+            }),
+          })
+        : await fetch('/api/assets/batch/flow', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids: assetIds, flowId: target }),
+          })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to add to flow')
+      }
+
+      onAdded()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to flow')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 rounded-2xl w-full max-w-md shadow-2xl border border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-slate-700">
+          <h3 className="text-lg font-semibold text-white">Add {assetIds.length} Assets to a Flow</h3>
+          <p className="text-xs text-slate-400">Assets are added as frames at the end, in grid order</p>
+        </div>
+
+        <div className="p-4 space-y-2 max-h-80 overflow-y-auto">
+          {error && (
+            <div className="p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-700/50 cursor-pointer">
+            <input
+              type="radio"
+              checked={target === NEW_FLOW}
+              onChange={() => setTarget(NEW_FLOW)}
+              className="accent-violet-500"
+            />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => { setNewName(e.target.value); setTarget(NEW_FLOW) }}
+              placeholder="New flow name"
+              className="flex-1 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+            />
+          </label>
+
+          {flows === null ? (
+            !error && <p className="px-3 py-2 text-sm text-slate-400">Loading flows...</p>
+          ) : (
+            flows.map(flow => (
+              <label key={flow.id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-700/50 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={target === flow.id}
+                  onChange={() => setTarget(flow.id)}
+                  className="accent-violet-500"
+                />
+                <span className="flex-1 text-sm text-white truncate">{flow.name}</span>
+                <span className="text-xs text-slate-500">{flow.frames.length} frames</span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-slate-700 bg-slate-900/30">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || (target === NEW_FLOW && !newName.trim())}
+            className="px-5 py-2 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-lg transition-all disabled:opacity-50"
+          >
+            {saving ? 'Adding...' : 'Add to Flow'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
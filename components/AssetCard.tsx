@@ -3,25 +3,34 @@
 import { useState, useRef } from 'react'
 import Image from 'next/image'
 import EditAssetModal from './EditAssetModal'
+import AddToCollectionModal from './AddToCollectionModal'
+import SimilarAssetsPanel from './SimilarAssetsPanel'
 
 interface Asset {
   id: string
   name: string
   filename: string
   url: string
+  thumbnailUrl?: string | null // Generated in the background, the original is shown until then
+  posterUrl?: string | null // Videos only
   oem: string
   screenType: string
   assetType: string
   description?: string
+  tags?: { id: string; name: string }[]
   format: string
   size: number
   createdAt: string
+  updatedAt?: string
 }
 
 interface AssetCardProps {
   asset: Asset
   onDelete: (id: string) => void
   onUpdate?: (updatedAsset: Asset) => void
+  selected?: boolean
+  selectionMode?: boolean // Some asset is selected, so clicking the preview selects instead of opening it
+  onToggleSelect?: (id: string, extend: boolean) => void // extend selects the range from the last click
 }
 
 function formatFileSize(bytes: number): string {
@@ -32,13 +41,14 @@ function formatFileSize(bytes: number): string {
 
 const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
 
-export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: AssetCardProps) {
+export default function AssetCard({ asset: initialAsset, onDelete, onUpdate, selected, selectionMode, onToggleSelect }: AssetCardProps) {
   const [asset, setAsset] = useState(initialAsset)
   const [isHovered, setIsHovered] = useState(false)
   const [showModal, setShowModal] = useState(false)
   const [showDownloadMenu, setShowDownloadMenu] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
   const [showEditModal, setShowEditModal] = useState(false)
+  const [showCollectionModal, setShowCollectionModal] = useState(false)
   const [exportMode, setExportMode] = useState<'screenshot' | 'gif'>('screenshot')
   const [isDeleting, setIsDeleting] = useState(false)
   const [isConverting, setIsConverting] = useState(false)
@@ -248,18 +258,22 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
   return (
     <>
       <div 
-        className="group relative bg-slate-800/50 rounded-2xl overflow-hidden border border-slate-700/50 hover:border-violet-500/50 transition-all duration-300 hover:shadow-xl hover:shadow-violet-500/10 h-[420px] flex flex-col"
+        className={`group relative bg-slate-800/50 rounded-2xl overflow-hidden border transition-all duration-300 hover:shadow-xl hover:shadow-violet-500/10 h-[420px] flex flex-col ${
+          selected ? 'border-violet-500 ring-2 ring-violet-500/40' : 'border-slate-700/50 hover:border-violet-500/50'
+        }`}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
       >
         {/* Media Container - Taller aspect ratio for better preview */}
         <div 
           className="relative flex-1 min-h-[240px] bg-slate-900 cursor-pointer overflow-hidden"
-          onClick={() => setShowModal(true)}
+          onClick={(e) => selectionMode && onToggleSelect ? onToggleSelect(asset.id, e.shiftKey) : setShowModal(true)}
         >
           {isVideo ? (
             <video
               src={asset.url}
+              poster={asset.thumbnailUrl ?? undefined}
+              preload={asset.thumbnailUrl ? 'none' : 'metadata'}
               className="w-full h-full object-contain"
               muted
               playsInline
@@ -268,7 +282,7 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
             />
           ) : (
             <Image
-              src={asset.url}
+              src={asset.thumbnailUrl ?? asset.url}
               alt={asset.name}
               fill
               className="object-contain transition-transform duration-300 group-hover:scale-105"
@@ -283,6 +297,23 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
             </span>
           </div>
 
+          {/* Selection Checkbox */}
+          {onToggleSelect && (selected || selectionMode || isHovered) && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleSelect(asset.id, e.shiftKey) }}
+              className={`absolute top-3 left-3 w-6 h-6 rounded-md border-2 flex items-center justify-center transition-colors ${
+                selected ? 'bg-violet-500 border-violet-500' : 'bg-slate-900/60 border-white/70 hover:border-white'
+              }`}
+              title={selected ? 'Deselect' : 'Select'}
+            >
+              {selected && (
+                <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </button>
+          )}
+
           {/* Format Badge */}
           <div className="absolute top-3 right-3">
             <span className={`px-2 py-1 text-xs font-mono font-bold uppercase rounded-md border ${
@@ -332,6 +363,14 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
             }`}>
               {asset.assetType}
             </span>
+            {asset.tags?.map(tag => (
+              <span
+                key={tag.id}
+                className="px-2 py-0.5 text-xs font-medium bg-sky-500/20 text-sky-300 border border-sky-500/30 rounded"
+              >
+                #{tag.name}
+              </span>
+            ))}
           </div>
 
           {/* Actions - Compact */}
@@ -346,6 +385,16 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
               Download
             </button>
             
+            <button
+              onClick={() => setShowCollectionModal(true)}
+              className="p-1.5 bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 rounded-lg transition-colors"
+              title="Add to collection"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+              </svg>
+            </button>
+            
             <button
               onClick={() => setShowEditModal(true)}
               className="p-1.5 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 rounded-lg transition-colors"
@@ -453,7 +502,7 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4"
           onClick={() => setShowModal(false)}
         >
-          <div className="relative max-w-5xl max-h-[90vh]" onClick={e => e.stopPropagation()}>
+          <div className="relative max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
             {/* Close button - top right corner of the content */}
             <button 
               className="absolute -top-12 right-0 w-10 h-10 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-full text-white/90 hover:text-white transition-all z-20 backdrop-blur-sm border border-white/20"
@@ -466,7 +515,8 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
             {isVideo ? (
               <video
                 src={asset.url}
-                className="max-h-[90vh] w-auto rounded-lg"
+                poster={asset.posterUrl ?? undefined}
+                className="max-h-[68vh] w-auto rounded-lg"
                 controls
                 autoPlay
               />
@@ -476,9 +526,10 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
                 alt={asset.name}
                 width={1920}
                 height={1080}
-                className="max-h-[90vh] w-auto object-contain rounded-lg"
+                className="max-h-[68vh] w-auto object-contain rounded-lg"
               />
             )}
+            <SimilarAssetsPanel assetId={asset.id} />
           </div>
         </div>
       )}
@@ -670,6 +721,14 @@ export default function AssetCard({ asset: initialAsset, onDelete, onUpdate }: A
         onClose={() => setShowEditModal(false)}
         onSave={handleAssetUpdate}
       />
+
+      {/* Add to Collection Modal */}
+      {showCollectionModal && (
+        <AddToCollectionModal
+          asset={asset}
+          onClose={() => setShowCollectionModal(false)}
+        />
+      )}
     </>
   )
 }
@@ -1,6 +1,8 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
 import AssetCard from './AssetCard'
+import { ASSET_PAGE_SIZE } from '@/lib/asset-query'
 
 interface Asset {
   id: string
@@ -11,18 +13,51 @@ interface Asset {
   screenType: string
   assetType: string
   description?: string
+  tags?: { id: string; name: string }[]
   format: string
   size: number
   createdAt: string
+  updatedAt?: string
 }
 
 interface AssetGridProps {
   assets: Asset[]
   isLoading: boolean
   onDelete: (id: string) => void
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
+  selectedIds?: Set<string>
+  onToggleSelect?: (id: string, extend: boolean) => void
 }
 
-export default function AssetGrid({ assets, isLoading, onDelete }: AssetGridProps) {
+export default function AssetGrid({
+  assets,
+  isLoading,
+  onDelete,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  selectedIds,
+  onToggleSelect,
+}: AssetGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // Load the next page once the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || !onLoadMore) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) onLoadMore()
+      },
+      { rootMargin: '400px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, onLoadMore])
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -60,17 +95,33 @@ export default function AssetGrid({ assets, isLoading, onDelete }: AssetGridProp
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-      {assets.map((asset, index) => (
-        <div 
-          key={asset.id}
-          className="animate-fadeIn"
-          style={{ animationDelay: `${index * 50}ms` }}
-        >
-          <AssetCard asset={asset} onDelete={onDelete} />
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+        {assets.map((asset, index) => (
+          <div 
+            // Remount after bulk edits, the card keeps its own copy of the asset
+            key={`${asset.id}-${asset.updatedAt}`}
+            className="animate-fadeIn"
+            style={{ animationDelay: `${(index % ASSET_PAGE_SIZE) * 50}ms` }}
+          >
+            <AssetCard
+              asset={asset}
+              onDelete={onDelete}
+              selected={selectedIds?.has(asset.id)}
+              selectionMode={Boolean(selectedIds?.size)}
+              onToggleSelect={onToggleSelect}
+            />
+          </div>
+        ))}
+      </div>
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-10">
+          {isLoadingMore && (
+            <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+          )}
         </div>
-      ))}
-    </div>
+      )}
+    </>
   )
 }
-
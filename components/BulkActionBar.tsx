@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import BulkEditModal from './BulkEditModal'
+import BulkDeleteModal from './BulkDeleteModal'
+import AddToFlowModal from './AddToFlowModal'
+
+interface BulkActionBarProps {
+  selectedIds: string[] // In grid order
+  allSelected: boolean
+  onSelectAll: () => void
+  onClear: () => void
+  onUpdated: () => void
+  onDeleted: (ids: string[]) => void
+}
+
+type BulkModal = 'edit' | 'delete' | 'flow' | null
+
+export default function BulkActionBar({
+  selectedIds,
+  allSelected,
+  onSelectAll,
+  onClear,
+  onUpdated,
+  onDeleted,
+}: BulkActionBarProps) {
+  const [modal, setModal] = useState<BulkModal>(null)
+
+  if (selectedIds.length === 0) return null
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-3 bg-slate-800/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl shadow-black/40">
+        <span className="text-sm font-medium text-white px-2">{selectedIds.length} selected</span>
+        {!allSelected && (
+          <button
+            onClick={onSelectAll}
+            className="px-3 py-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            Select all loaded
+          </button>
+        )}
+        <button
+          onClick={onClear}
+          className="px-3 py-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+        >
+          Clear
+        </button>
+
+        <div className="w-px h-6 bg-slate-700 mx-1" />
+
+        <button
+          onClick={() => setModal('edit')}
+          className="px-3 py-1.5 bg-violet-500/20 hover:bg-violet-500/30 text-violet-300 text-sm font-medium rounded-lg transition-colors"
+        >
+          Edit
+        </button>
+        <button
+          onClick={() => setModal('flow')}
+          className="px-3 py-1.5 bg-slate-700/50 hover:bg-slate-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          Add to Flow
+        </button>
+        {/* Posted as a form, so the browser saves the streamed file itself and hundreds of ids fit */}
+        <form method="post" action="/api/assets/batch/download">
+          <input type="hidden" name="ids" value={selectedIds.join(',')} />
+          <button
+            type="submit"
+            className="px-3 py-1.5 bg-slate-700/50 hover:bg-slate-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            Download ZIP
+          </button>
+        </form>
+        <button
+          onClick={() => setModal('delete')}
+          className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium rounded-lg transition-colors"
+        >
+          Delete
+        </button>
+      </div>
+
+      {modal === 'edit' && (
+        <BulkEditModal
+          assetIds={selectedIds}
+          onClose={() => setModal(null)}
+          onSaved={() => { setModal(null); onUpdated() }}
+        />
+      )}
+
+      {modal === 'flow' && (
+        <AddToFlowModal
+          assetIds={selectedIds}
+          onClose={() => setModal(null)}
+          onAdded={() => { setModal(null); onClear() }}
+        />
+      )}
+
+      {modal === 'delete' && (
+        <BulkDeleteModal
+          assetIds={selectedIds}
+          onClose={() => setModal(null)}
+          onDeleted={(ids) => { setModal(null); onDeleted(ids) }}
+        />
+      )}
+    </>
+  )
+}
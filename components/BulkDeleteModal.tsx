@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface DeleteImpact {
+  flows: Array<{ id: string; name: string; affectedFrames: number; totalFrames: number }>
+  collections: Array<{ id: string; name: string; affectedItems: number }>
+}
+
+interface BulkDeleteModalProps {
+  assetIds: string[]
+  onClose: () => void
+  onDeleted: (ids: string[]) => void
+}
+
+export default function BulkDeleteModal({ assetIds, onClose, onDeleted }: BulkDeleteModalProps) {
+  const [impact, setImpact] = useState<DeleteImpact | null>(null)
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/assets/batch/impact', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids: assetIds }),
+    })
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Failed to check affected flows')))
+      .then(setImpact)
+      .catch(err => setError(err.message))
+  }, [assetIds])
+
+  const handleDelete = async () => {
+    setDeleting(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/assets/batch', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: assetIds }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to delete assets')
+      }
+
+      onDeleted(assetIds)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete assets')
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-slate-800 rounded-2xl w-full max-w-md shadow-2xl border border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-slate-700">
+          <h3 className="text-lg font-semibold text-white">Delete {assetIds.length} Assets?</h3>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          {error && (
+            <div className="p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300">
+              {error}
+            </div>
+          )}
+
+          {!impact ? (
+            !error && <p className="text-slate-400">Checking flows and collections...</p>
+          ) : impact.flows.length === 0 && impact.collections.length === 0 ? (
+            <p className="text-slate-300">These assets aren&apos;t used in any flow or collection.</p>
+          ) : (
+            <>
+              {impact.flows.length > 0 && (
+                <div>
+                  <p className="text-slate-300 mb-2">Frames will be removed from {impact.flows.length} flow{impact.flows.length !== 1 ? 's' : ''}:</p>
+                  <ul className="space-y-1 max-h-40 overflow-y-auto">
+                    {impact.flows.map(flow => (
+                      <li key={flow.id} className="flex items-center justify-between gap-3 px-3 py-1.5 bg-slate-900/50 rounded-lg">
+                        <span className="text-white truncate">{flow.name}</span>
+                        <span className={`text-xs flex-shrink-0 ${flow.affectedFrames === flow.totalFrames ? 'text-red-400' : 'text-slate-400'}`}>
+                          {flow.affectedFrames === flow.totalFrames
+                            ? 'Left empty'
+                            : `${flow.affectedFrames} of ${flow.totalFrames} frames`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {impact.collections.length > 0 && (
+                <div>
+                  <p className="text-slate-300 mb-2">Items will be removed from {impact.collections.length} collection{impact.collections.length !== 1 ? 's' : ''}:</p>
+                  <ul className="space-y-1 max-h-32 overflow-y-auto">
+                    {impact.collections.map(collection => (
+                      <li key={collection.id} className="flex items-center justify-between gap-3 px-3 py-1.5 bg-slate-900/50 rounded-lg">
+                        <span className="text-white truncate">{collection.name}</span>
+                        <span className="text-xs text-slate-400 flex-shrink-0">{collection.affectedItems} items</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          <p className="text-slate-500">This can&apos;t be undone.</p>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-slate-700 bg-slate-900/30">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleting || !impact}
+            className="px-5 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {deleting ? 'Deleting...' : `Delete ${assetIds.length} Assets`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import { TAXONOMY_KINDS, TAXONOMY_LABELS, type TaxonomyKind } from '@/lib/taxonomy'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+import TagInput from './TagInput'
+
+interface BulkEditModalProps {
+  assetIds: string[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function BulkEditModal({ assetIds, onClose, onSaved }: BulkEditModalProps) {
+  // Blank fields are left unchanged on every asset
+  const [fields, setFields] = useState<Record<TaxonomyKind, string>>({ oem: '', screenType: '', assetType: '' })
+  const [addTags, setAddTags] = useState<string[]>([])
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { taxonomy } = useTaxonomy()
+
+  const hasChanges = Object.values(fields).some(Boolean) || addTags.length > 0 || removeTags.length > 0
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!hasChanges) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/assets/batch', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: assetIds, ...fields, addTags, removeTags }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to update assets')
+      }
+
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update assets')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 rounded-2xl w-full max-w-lg shadow-2xl border border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-slate-700">
+          <h3 className="text-lg font-semibold text-white">Edit {assetIds.length} Assets</h3>
+          <p className="text-xs text-slate-400">Only the fields you set are changed</p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            {TAXONOMY_KINDS.map(kind => (
+              <div key={kind}>
+                <label className="block text-sm font-medium text-slate-300 mb-1">{TAXONOMY_LABELS[kind].singular}</label>
+                <select
+                  value={fields[kind]}
+                  onChange={(e) => setFields(prev => ({ ...prev, [kind]: e.target.value }))}
+                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 cursor-pointer"
+                >
+                  <option value="" className="bg-slate-900">Keep current</option>
+                  {taxonomy[kind].map(option => (
+                    <option key={option} value={option} className="bg-slate-900">{option}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Add tags</label>
+            <TagInput value={addTags} onChange={setAddTags} placeholder="Tags to add to every asset..." />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Remove tags</label>
+            <TagInput value={removeTags} onChange={setRemoveTags} placeholder="Tags to remove..." />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-slate-700 bg-slate-900/30">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !hasChanges}
+            className="px-5 py-2 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-lg transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : `Update ${assetIds.length} Assets`}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
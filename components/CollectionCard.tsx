@@ -0,0 +1,70 @@
+'use client'
+
+import Link from 'next/link'
+import Image from 'next/image'
+
+interface CoverAsset {
+  id: string
+  name: string
+  url: string
+  format: string
+}
+
+export interface CollectionSummary {
+  id: string
+  name: string
+  description: string | null
+  parentId: string | null
+  coverAsset: CoverAsset | null
+  firstItem: { asset: CoverAsset } | null
+  _count: { items: number; children: number }
+}
+
+interface CollectionCardProps {
+  collection: CollectionSummary
+}
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+export default function CollectionCard({ collection }: CollectionCardProps) {
+  const cover = collection.coverAsset || collection.firstItem?.asset
+
+  return (
+    <Link
+      href={`/collections/${collection.id}`}
+      className="group block bg-slate-800/50 rounded-2xl overflow-hidden border border-slate-700/50 hover:border-violet-500/50 transition-all hover:shadow-xl hover:shadow-violet-500/10"
+    >
+      <div className="aspect-video relative bg-slate-900 overflow-hidden">
+        {cover ? (
+          VIDEO_FORMATS.includes(cover.format.toLowerCase()) ? (
+            <video src={cover.url} className="w-full h-full object-cover" muted />
+          ) : (
+            <Image src={cover.url} alt={cover.name} fill className="object-cover" />
+          )
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <svg className="w-12 h-12 text-slate-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+            </svg>
+          </div>
+        )}
+
+        <div className="absolute top-3 right-3 px-2 py-1 bg-black/60 backdrop-blur-sm rounded-lg text-xs font-medium text-white">
+          {collection._count.items} assets
+        </div>
+      </div>
+
+      <div className="p-4">
+        <h3 className="font-semibold text-white truncate mb-1 group-hover:text-violet-300 transition-colors">
+          {collection.name}
+        </h3>
+        {collection.description && (
+          <p className="text-sm text-slate-400 truncate mb-2">{collection.description}</p>
+        )}
+        {collection._count.children > 0 && (
+          <p className="text-xs text-slate-500">{collection._count.children} sub-collections</p>
+        )}
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+
+interface CollectionFormModalProps {
+  // Editing when given, creating otherwise
+  collection?: { id: string; name: string; description: string | null }
+  parentId?: string | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function CollectionFormModal({ collection, parentId, onClose, onSaved }: CollectionFormModalProps) {
+  const [name, setName] = useState(collection?.name || '')
+  const [description, setDescription] = useState(collection?.description || '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      setError('Name is required')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(collection ? `/api/collections/${collection.id}` : '/api/collections', {
+        method: collection ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim(),
+          ...(collection ? {} : { parentId: parentId || null }),
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save collection')
+      }
+
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save collection')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 rounded-2xl w-full max-w-md shadow-2xl border border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h3 className="text-lg font-semibold text-white">
+            {collection ? 'Edit Collection' : parentId ? 'New Sub-collection' : 'New Collection'}
+          </h3>
+          <button
+            type="button"
+            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+            onClick={onClose}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {error && (
+            <div className="p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+            <input
+              type="text"
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+              placeholder="e.g., Samsung Q4 Pitch"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Description (optional)</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 resize-none"
+              placeholder="What is this collection for?"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-slate-700 bg-slate-900/30">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-5 py-2 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-lg transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : collection ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
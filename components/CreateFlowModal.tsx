@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import Image from 'next/image'
+import { FrameTransition, TRANSITION_OPTIONS, isFrameTransition } from '@/lib/transitions'
+import { MAX_ASSET_PAGE_SIZE } from '@/lib/asset-query'
 
 interface Asset {
   id: string
@@ -11,34 +13,91 @@ interface Asset {
 }
 
 interface SelectedFrame {
+  key: string // tells frames apart, a flow can show the same asset more than once
+  id?: string // existing frame when editing, keeps its hotspots
   assetId: string
   asset: Asset
   delay: number
+  transition: FrameTransition // to the next frame
+  transitionDuration?: number
 }
 
+// Existing flow to edit
+interface EditableFlow {
+  id: string
+  name: string
+  description?: string | null
+  frames: Array<{
+    id: string
+    assetId: string
+    delay: number
+    transition: string
+    transitionDuration: number
+    asset: Asset
+  }>
+}
+
+type Step = 'info' | 'select' | 'order'
+
+const EDIT_TABS: { value: Step; label: string }[] = [
+  { value: 'info', label: 'Details' },
+  { value: 'select', label: 'Frames' },
+  { value: 'order', label: 'Order & Timing' },
+]
+
 interface CreateFlowModalProps {
   isOpen: boolean
   onClose: () => void
   onSuccess: () => void
+  flow?: EditableFlow // edit this flow instead of creating a new one
+}
+
+let lastFrameKey = 0
+const newFrameKey = () => `new-${++lastFrameKey}`
+
+function framesFromFlow(flow?: EditableFlow): SelectedFrame[] {
+  if (!flow) return []
+  return flow.frames.map(frame => ({
+    key: frame.id,
+    id: frame.id,
+    assetId: frame.assetId,
+    asset: frame.asset,
+    delay: frame.delay,
+    transition: isFrameTransition(frame.transition) ? frame.transition : 'cut',
+    transitionDuration: frame.transitionDuration,
+  }))
 }
 
-export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFlowModalProps) {
-  const [step, setStep] = useState<'info' | 'select' | 'order'>('info')
-  const [name, setName] = useState('')
-  const [description, setDescription] = useState('')
+export default function CreateFlowModal({ isOpen, onClose, onSuccess, flow }: CreateFlowModalProps) {
+  const isEditing = !!flow
+  const [step, setStep] = useState<Step>(isEditing ? 'order' : 'info')
+  const [name, setName] = useState(flow?.name || '')
+  const [description, setDescription] = useState(flow?.description || '')
   const [assets, setAssets] = useState<Asset[]>([])
-  const [selectedFrames, setSelectedFrames] = useState<SelectedFrame[]>([])
+  const [selectedFrames, setSelectedFrames] = useState<SelectedFrame[]>(() => framesFromFlow(flow))
   const [loading, setLoading] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
 
   // Fetch available assets
   const fetchAssets = useCallback(async () => {
     setLoading(true)
     try {
-      const res = await fetch('/api/assets')
-      const data = await res.json()
-      setAssets(data.assets || [])
+      // Follow the cursor so every asset is available to pick from
+      const all: Asset[] = []
+      let cursor: string | null = null
+      do {
+        const params = new URLSearchParams({ limit: String(MAX_ASSET_PAGE_SIZE) })
+        if (cursor) params.set('cursor', cursor)
+        const res = await fetch(`/api/assets?${params.toString()}`)
+        if (!res.ok) throw new Error('Failed to load assets')
+        const data: { assets: Asset[]; nextCursor: string | null } = await res.json()
+        all.push(...data.assets)
+        cursor = data.nextCursor
+      } while (cursor)
+      setAssets(all)
     } catch (err) {
       setError('Failed to load assets')
       console.error(err)
@@ -54,10 +113,10 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
   }, [isOpen, fetchAssets])
 
   const resetModal = () => {
-    setStep('info')
-    setName('')
-    setDescription('')
-    setSelectedFrames([])
+    setStep(isEditing ? 'order' : 'info')
+    setName(flow?.name || '')
+    setDescription(flow?.description || '')
+    setSelectedFrames(framesFromFlow(flow))
     setError(null)
   }
 
@@ -66,40 +125,66 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
     onClose()
   }
 
-  // Toggle asset selection
+  // Toggle asset selection, removing only its last frame if it's in the flow more than once
   const toggleAsset = (asset: Asset) => {
-    const existing = selectedFrames.find(f => f.assetId === asset.id)
-    if (existing) {
-      setSelectedFrames(selectedFrames.filter(f => f.assetId !== asset.id))
+    const last = selectedFrames.findLast(f => f.assetId === asset.id)
+    if (last) {
+      setSelectedFrames(selectedFrames.filter(f => f !== last))
     } else {
-      setSelectedFrames([...selectedFrames, { assetId: asset.id, asset, delay: 1000 }])
+      setSelectedFrames([...selectedFrames, { key: newFrameKey(), assetId: asset.id, asset, delay: 1000, transition: 'cut' }])
     }
   }
 
   // Update frame delay
-  const updateDelay = (assetId: string, delay: number) => {
+  const updateDelay = (key: string, delay: number) => {
     setSelectedFrames(selectedFrames.map(f => 
-      f.assetId === assetId ? { ...f, delay } : f
+      f.key === key ? { ...f, delay } : f
     ))
   }
 
-  // Move frame in order
-  const moveFrame = (index: number, direction: 'up' | 'down') => {
-    const newFrames = [...selectedFrames]
-    const newIndex = direction === 'up' ? index - 1 : index + 1
-    if (newIndex >= 0 && newIndex < newFrames.length) {
-      [newFrames[index], newFrames[newIndex]] = [newFrames[newIndex], newFrames[index]]
+  // Update transition to the next frame
+  const updateTransition = (key: string, transition: FrameTransition) => {
+    setSelectedFrames(selectedFrames.map(f => 
+      f.key === key ? { ...f, transition, transitionDuration: undefined } : f
+    ))
+  }
+
+  // Drag and drop reordering
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    e.dataTransfer.effectAllowed = 'move'
+    setDraggedIndex(index)
+  }
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (draggedIndex === null) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropIndex(index)
+  }
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault()
+    if (draggedIndex !== null && draggedIndex !== index) {
+      const newFrames = [...selectedFrames]
+      const [moved] = newFrames.splice(draggedIndex, 1)
+      newFrames.splice(index, 0, moved)
       setSelectedFrames(newFrames)
     }
+    handleDragEnd()
+  }
+
+  const handleDragEnd = () => {
+    setDraggedIndex(null)
+    setDropIndex(null)
   }
 
   // Remove frame
-  const removeFrame = (assetId: string) => {
-    setSelectedFrames(selectedFrames.filter(f => f.assetId !== assetId))
+  const removeFrame = (key: string) => {
+    setSelectedFrames(selectedFrames.filter(f => f.key !== key))
   }
 
-  // Create the flow
-  const handleCreate = async () => {
+  // Create the flow, or save changes to the one being edited
+  const handleSubmit = async () => {
     if (!name.trim()) {
       setError('Please enter a flow name')
       return
@@ -113,28 +198,31 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
     setError(null)
 
     try {
-      const res = await fetch('/api/flows', {
-        method: 'POST',
+      const res = await fetch(isEditing ? `/api/flows/${flow.id}` : '/api/flows', {
+        method: isEditing ? 'PUT' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name,
-          description: description || undefined,
+          description: isEditing ? description : description || undefined,
           frames: selectedFrames.map(f => ({
+            id: f.id,
             assetId: f.assetId,
             delay: f.delay,
+            transition: f.transition,
+            transitionDuration: f.transitionDuration,
           })),
         }),
       })
 
       if (!res.ok) {
         const data = await res.json()
-        throw new Error(data.error || 'Failed to create flow')
+        throw new Error(data.error || (isEditing ? 'Failed to save flow' : 'Failed to create flow'))
       }
 
       onSuccess()
       handleClose()
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create flow')
+      setError(err instanceof Error ? err.message : (isEditing ? 'Failed to save flow' : 'Failed to create flow'))
     } finally {
       setSubmitting(false)
     }
@@ -154,12 +242,28 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
           <div>
-            <h2 className="text-lg font-semibold text-white">Create New Flow</h2>
-            <p className="text-sm text-slate-400">
-              {step === 'info' && 'Name your flow'}
-              {step === 'select' && 'Select frames to include'}
-              {step === 'order' && 'Arrange frame order and timing'}
-            </p>
+            <h2 className="text-lg font-semibold text-white">{isEditing ? 'Edit Flow' : 'Create New Flow'}</h2>
+            {isEditing ? (
+              <div className="flex items-center gap-1 mt-2">
+                {EDIT_TABS.map(tab => (
+                  <button
+                    key={tab.value}
+                    onClick={() => { setError(null); setStep(tab.value) }}
+                    className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                      step === tab.value ? 'bg-violet-500/20 text-violet-300' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">
+                {step === 'info' && 'Name your flow'}
+                {step === 'select' && 'Select frames to include'}
+                {step === 'order' && 'Arrange frame order and timing'}
+              </p>
+            )}
           </div>
           <button
             className="p-2 text-slate-400 hover:text-white transition-colors"
@@ -285,29 +389,25 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
               <div className="space-y-2">
                 {selectedFrames.map((frame, index) => (
                   <div
-                    key={frame.assetId}
-                    className="flex items-center gap-4 p-3 bg-slate-900/50 rounded-xl border border-slate-700"
+                    key={frame.key}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, index)}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDrop={(e) => handleDrop(e, index)}
+                    onDragEnd={handleDragEnd}
+                    className={`flex items-center gap-4 p-3 bg-slate-900/50 rounded-xl border transition-all ${
+                      draggedIndex === index
+                        ? 'opacity-40 border-slate-700'
+                        : dropIndex === index && draggedIndex !== null
+                        ? 'border-violet-500'
+                        : 'border-slate-700'
+                    }`}
                   >
-                    {/* Order controls */}
-                    <div className="flex flex-col">
-                      <button
-                        onClick={() => moveFrame(index, 'up')}
-                        disabled={index === 0}
-                        className="p-1 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => moveFrame(index, 'down')}
-                        disabled={index === selectedFrames.length - 1}
-                        className="p-1 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                        </svg>
-                      </button>
+                    {/* Drag handle */}
+                    <div className="cursor-grab active:cursor-grabbing text-slate-500 hover:text-slate-300" title="Drag to reorder">
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M9 5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm0 7a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm-1.5 8.5a1.5 1.5 0 100-3 1.5 1.5 0 000 3zM18 5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm-1.5 8.5a1.5 1.5 0 100-3 1.5 1.5 0 000 3zm1.5 5.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0z" />
+                      </svg>
                     </div>
 
                     {/* Frame number */}
@@ -339,15 +439,30 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
                         max={10000}
                         step={100}
                         value={frame.delay}
-                        onChange={(e) => updateDelay(frame.assetId, parseInt(e.target.value) || 1000)}
+                        onChange={(e) => updateDelay(frame.key, parseInt(e.target.value) || 1000)}
                         className="w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm text-center focus:outline-none focus:ring-1 focus:ring-violet-500"
                       />
                       <span className="text-xs text-slate-400">ms</span>
                     </div>
 
+                    {/* Transition to the next frame (not for last frame) */}
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-slate-400">Transition:</label>
+                      <select
+                        value={frame.transition}
+                        onChange={(e) => updateTransition(frame.key, e.target.value as FrameTransition)}
+                        disabled={index === selectedFrames.length - 1}
+                        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm focus:outline-none focus:ring-1 focus:ring-violet-500 disabled:opacity-50"
+                      >
+                        {TRANSITION_OPTIONS.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
                     {/* Remove button */}
                     <button
-                      onClick={() => removeFrame(frame.assetId)}
+                      onClick={() => removeFrame(frame.key)}
                       className="p-2 text-slate-400 hover:text-red-400 transition-colors"
                     >
                       <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -368,7 +483,25 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
 
         {/* Footer */}
         <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700 bg-slate-900/50">
-          {step === 'info' && (
+          {isEditing && (
+            <>
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={submitting}
+                className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all disabled:opacity-50"
+              >
+                {submitting ? 'Saving...' : 'Save Changes'}
+              </button>
+            </>
+          )}
+
+          {!isEditing && step === 'info' && (
             <>
               <button
                 onClick={handleClose}
@@ -385,7 +518,7 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
             </>
           )}
 
-          {step === 'select' && (
+          {!isEditing && step === 'select' && (
             <>
               <button
                 onClick={() => setStep('info')}
@@ -403,7 +536,7 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
             </>
           )}
 
-          {step === 'order' && (
+          {!isEditing && step === 'order' && (
             <>
               <button
                 onClick={() => setStep('select')}
@@ -412,7 +545,7 @@ export default function CreateFlowModal({ isOpen, onClose, onSuccess }: CreateFl
                 Back
               </button>
               <button
-                onClick={handleCreate}
+                onClick={handleSubmit}
                 disabled={submitting}
                 className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all disabled:opacity-50"
               >
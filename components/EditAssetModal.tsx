@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { OEM_OPTIONS, SCREEN_TYPE_OPTIONS, ASSET_TYPE_OPTIONS } from './SearchFilter'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+import TagInput from './TagInput'
 
 interface Asset {
   id: string
@@ -12,11 +13,23 @@ interface Asset {
   screenType: string
   assetType: string
   description?: string
+  tags?: { id: string; name: string }[]
   format: string
   size: number
   createdAt: string
 }
 
+interface AssetVersion {
+  id: string
+  version: number
+  filename: string
+  url: string
+  format: string
+  size: number
+  createdAt: string
+  fileCreatedAt: string
+}
+
 interface EditAssetModalProps {
   asset: Asset | null
   isOpen: boolean
@@ -24,14 +37,41 @@ interface EditAssetModalProps {
   onSave: (updatedAsset: Asset) => void
 }
 
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B'
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB'
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+}
+
 export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditAssetModalProps) {
   const [name, setName] = useState('')
   const [oem, setOem] = useState('')
   const [screenType, setScreenType] = useState('')
   const [assetType, setAssetType] = useState('')
   const [description, setDescription] = useState('')
+  const [tags, setTags] = useState<string[]>([])
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [versions, setVersions] = useState<AssetVersion[]>([])
+  const [replacing, setReplacing] = useState(false)
+  const [revertingVersion, setRevertingVersion] = useState<number | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { taxonomy } = useTaxonomy()
+
+  const assetId = asset?.id
+
+  const fetchVersions = useCallback(async () => {
+    if (!assetId) return
+    try {
+      const res = await fetch(`/api/assets/${assetId}/versions`)
+      if (res.ok) {
+        const data = await res.json()
+        setVersions(data.versions)
+      }
+    } catch (err) {
+      console.error('Failed to fetch asset versions:', err)
+    }
+  }, [assetId])
 
   useEffect(() => {
     if (asset) {
@@ -40,9 +80,70 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
       setScreenType(asset.screenType)
       setAssetType(asset.assetType)
       setDescription(asset.description || '')
+      setTags(asset.tags?.map(tag => tag.name) || [])
     }
   }, [asset])
 
+  useEffect(() => {
+    if (isOpen) {
+      fetchVersions()
+    }
+  }, [isOpen, fetchVersions])
+
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!asset || !file) return
+
+    setReplacing(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const res = await fetch(`/api/assets/${asset.id}/file`, {
+        method: 'POST',
+        body: formData,
+      })
+
+      if (!res.ok) {
+        throw new Error('Failed to replace file')
+      }
+
+      onSave(await res.json())
+      await fetchVersions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replace file')
+    } finally {
+      setReplacing(false)
+    }
+  }
+
+  const handleRevert = async (version: number) => {
+    if (!asset) return
+
+    setRevertingVersion(version)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/assets/${asset.id}/versions/${version}/revert`, {
+        method: 'POST',
+      })
+
+      if (!res.ok) {
+        throw new Error('Failed to revert file')
+      }
+
+      onSave(await res.json())
+      await fetchVersions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert file')
+    } finally {
+      setRevertingVersion(null)
+    }
+  }
+
   const handleSave = async () => {
     if (!asset) return
     
@@ -64,6 +165,7 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
           screenType,
           assetType,
           description: description.trim() || undefined,
+          tags,
         }),
       })
 
@@ -134,7 +236,7 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
                 onChange={(e) => setOem(e.target.value)}
                 className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
               >
-                {OEM_OPTIONS.filter(o => o !== 'All OEMs').map(option => (
+                {taxonomy.oem.map(option => (
                   <option key={option} value={option}>{option}</option>
                 ))}
               </select>
@@ -147,7 +249,7 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
                 onChange={(e) => setScreenType(e.target.value)}
                 className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
               >
-                {SCREEN_TYPE_OPTIONS.filter(o => o !== 'All Types').map(option => (
+                {taxonomy.screenType.map(option => (
                   <option key={option} value={option}>{option}</option>
                 ))}
               </select>
@@ -162,7 +264,7 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
               onChange={(e) => setAssetType(e.target.value)}
               className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
             >
-              {ASSET_TYPE_OPTIONS.filter(o => o !== 'All Assets').map(option => (
+              {taxonomy.assetType.map(option => (
                 <option key={option} value={option}>{option}</option>
               ))}
             </select>
@@ -179,6 +281,73 @@ export default function EditAssetModal({ asset, isOpen, onClose, onSave }: EditA
               placeholder="Add a description..."
             />
           </div>
+
+          {/* Tags */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Tags</label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+
+          {/* File */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">File</label>
+            <div className="flex items-center gap-3 px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{asset.filename}</p>
+                <p className="text-xs text-slate-400">{asset.format.toUpperCase()} • {formatFileSize(asset.size)}</p>
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={replacing}
+                className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {replacing ? 'Uploading...' : 'Replace'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".png,.jpg,.jpeg,.gif,.webp,.mp4,.webm,.mov"
+                onChange={handleReplaceFile}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {/* Previous Files */}
+          {versions.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Previous Files</label>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {versions.map(version => (
+                  <div
+                    key={version.id}
+                    className="flex items-center gap-3 px-3 py-2 bg-slate-900/30 rounded-lg"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <a
+                        href={version.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-sm text-slate-300 hover:text-violet-300 truncate"
+                      >
+                        v{version.version} • {version.filename}
+                      </a>
+                      <p className="text-xs text-slate-500">
+                        {formatFileSize(version.size)} • Replaced {new Date(version.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevert(version.version)}
+                      disabled={revertingVersion !== null}
+                      className="px-2 py-1 text-xs text-violet-400 hover:text-violet-300 transition-colors disabled:opacity-50"
+                    >
+                      {revertingVersion === version.version ? 'Reverting...' : 'Revert'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer - Always visible */}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import Image from 'next/image'
-import { OEM_OPTIONS, SCREEN_TYPE_OPTIONS, ASSET_TYPE_OPTIONS } from './SearchFilter'
+import Link from 'next/link'
+import { useTaxonomy } from '@/lib/use-taxonomy'
 
 // Types
 interface FigmaPage {
@@ -39,9 +40,12 @@ interface FigmaImportModalProps {
   onSuccess: () => void
 }
 
-type ImportMode = 'choose' | 'frames' | 'video'
+type ImportMode = 'choose' | 'frames' | 'video' | 'flow'
 type Step = 'mode' | 'url' | 'select' | 'sequence' | 'metadata' | 'importing' | 'done'
 
+// How often to poll a background render job for progress
+const JOB_POLL_INTERVAL = 1000
+
 const TRANSITION_OPTIONS: { value: SequenceItem['transition']; label: string }[] = [
   { value: 'cut', label: 'Cut (instant)' },
   { value: 'fade', label: 'Fade (0.5s)' },
@@ -62,19 +66,29 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
   const [error, setError] = useState<string | null>(null)
   const [importProgress, setImportProgress] = useState(0)
   const [importedCount, setImportedCount] = useState(0)
+  const [existingCount, setExistingCount] = useState(0) // Frames already in the library
+  const activeJobRef = useRef<string | null>(null)
 
   // Video-specific state
   const [allScreens, setAllScreens] = useState<PrototypeScreen[]>([])
   const [sequence, setSequence] = useState<SequenceItem[]>([])
 
   // Metadata
-  const [oem, setOem] = useState(OEM_OPTIONS[1])
-  const [screenType, setScreenType] = useState(SCREEN_TYPE_OPTIONS[1])
-  const [assetType, setAssetType] = useState(ASSET_TYPE_OPTIONS[1])
+  // Empty until picked, falling back to the first term of each list
+  const { taxonomy } = useTaxonomy()
+  const [selectedOem, setOem] = useState('')
+  const [selectedScreenType, setScreenType] = useState('')
+  const [selectedAssetType, setAssetType] = useState('')
+  const oem = selectedOem || taxonomy.oem[0] || ''
+  const screenType = selectedScreenType || taxonomy.screenType[0] || ''
+  const assetType = selectedAssetType || taxonomy.assetType[0] || ''
   const [description, setDescription] = useState('')
   const [videoName, setVideoName] = useState('')
+  const [flowName, setFlowName] = useState('')
+  const [importedHotspots, setImportedHotspots] = useState(0)
 
   const resetModal = useCallback(() => {
+    activeJobRef.current = null
     setImportMode('choose')
     setStep('mode')
     setFigmaUrl('')
@@ -90,11 +104,13 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
     setImportedCount(0)
     setAllScreens([])
     setSequence([])
-    setOem(OEM_OPTIONS[1])
-    setScreenType(SCREEN_TYPE_OPTIONS[1])
-    setAssetType(ASSET_TYPE_OPTIONS[1])
+    setOem('')
+    setScreenType('')
+    setAssetType('')
     setDescription('')
     setVideoName('')
+    setFlowName('')
+    setImportedHotspots(0)
   }, [])
 
   const handleClose = () => {
@@ -129,6 +145,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
       setFileKey(data.fileKey)
       setFileName(data.file.name)
       setVideoName(`${data.file.name} - Flow`)
+      setFlowName(`${data.file.name} - Prototype`)
       setPages(data.file.pages)
       
       if (data.file.pages.length > 0) {
@@ -206,6 +223,11 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
       return
     }
     
+    if (importMode === 'flow' && selectedFrames.size < 2) {
+      setError('Please select at least 2 screens for an interactive flow')
+      return
+    }
+
     if (importMode === 'video') {
       if (selectedFrames.size < 2) {
         setError('Please select at least 2 screens for video')
@@ -297,6 +319,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
       }
 
       setImportedCount(data.imported)
+      setExistingCount(data.existing || 0)
       setImportProgress(100)
       setStep('done')
     } catch (err) {
@@ -305,6 +328,75 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
     }
   }
 
+  // Import screens as assets and link them into a clickable flow (prototype mode)
+  const handleImportFlow = async () => {
+    setStep('importing')
+    setImportProgress(0)
+    setError(null)
+
+    try {
+      const framesToImport = frames.filter(f => selectedFrames.has(f.id))
+
+      const res = await fetch('/api/figma/import-flow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileKey,
+          fileName,
+          flowName: flowName || `${fileName} - Prototype`,
+          frames: framesToImport.map(f => ({ id: f.id, name: f.name })),
+          metadata: {
+            oem,
+            screenType,
+            assetType,
+            description: description || undefined,
+          },
+        }),
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to import prototype')
+      }
+
+      setImportedCount(data.imported)
+      setImportedHotspots(data.hotspots)
+      setImportProgress(100)
+      setStep('done')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import prototype')
+      setStep('metadata')
+    }
+  }
+
+  // Poll a background render job until it finishes, reporting its progress
+  // Returns null if polling was cancelled (modal closed)
+  const waitForJob = async (jobId: string) => {
+    activeJobRef.current = jobId
+
+    while (activeJobRef.current === jobId) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+
+      const res = await fetch(`/api/jobs/${jobId}`)
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to check video progress')
+      }
+
+      if (activeJobRef.current !== jobId) break
+      setImportProgress(data.job.progress)
+
+      if (data.job.status === 'completed') return data.job
+      if (data.job.status === 'failed') {
+        throw new Error(data.job.error || 'Video rendering failed')
+      }
+    }
+
+    return null
+  }
+
   // Create video from sequence
   const handleCreateVideo = async () => {
     setStep('importing')
@@ -340,6 +432,10 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
         throw new Error(data.error || 'Failed to create video')
       }
 
+      // Rendering happens in the background - wait for the job to finish
+      const job = await waitForJob(data.job.id)
+      if (!job) return
+
       setImportedCount(sequence.length)
       setImportProgress(100)
       setStep('done')
@@ -380,11 +476,15 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
               <h2 className="text-lg font-semibold text-white">Import from Figma</h2>
               <p className="text-sm text-slate-400">
                 {step === 'mode' && 'Choose how to import'}
-                {step === 'url' && (importMode === 'video' ? 'Paste your prototype URL' : 'Paste your Figma file URL')}
-                {step === 'select' && (importMode === 'video' ? `${fileName} - Select screens for video` : `${fileName} - Select frames`)}
+                {step === 'url' && (importMode === 'frames' ? 'Paste your Figma file URL' : 'Paste your prototype URL')}
+                {step === 'select' && (importMode === 'video'
+                  ? `${fileName} - Select screens for video`
+                  : importMode === 'flow'
+                  ? `${fileName} - Select screens for the flow`
+                  : `${fileName} - Select frames`)}
                 {step === 'sequence' && 'Configure video sequence'}
-                {step === 'metadata' && (importMode === 'video' ? 'Video settings' : 'Add metadata')}
-                {step === 'importing' && (importMode === 'video' ? 'Creating video...' : 'Importing frames...')}
+                {step === 'metadata' && (importMode === 'video' ? 'Video settings' : importMode === 'flow' ? 'Flow settings' : 'Add metadata')}
+                {step === 'importing' && (importMode === 'video' ? 'Creating video...' : importMode === 'flow' ? 'Importing prototype...' : 'Importing frames...')}
                 {step === 'done' && 'Import complete!'}
               </p>
             </div>
@@ -427,7 +527,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                 Choose how you want to import from Figma:
               </p>
               
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 {/* Import as Video */}
                 <button
                   onClick={() => handleSelectMode('video')}
@@ -460,6 +560,22 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                     Select and import specific frames as individual image assets.
                   </p>
                 </button>
+
+                {/* Import as Interactive Flow */}
+                <button
+                  onClick={() => handleSelectMode('flow')}
+                  className="p-6 bg-slate-900/50 border-2 border-slate-700 hover:border-emerald-500 rounded-2xl text-left transition-all group"
+                >
+                  <div className="w-12 h-12 rounded-xl bg-emerald-500/20 flex items-center justify-center mb-4 group-hover:bg-emerald-500/30 transition-colors">
+                    <svg className="w-6 h-6 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+                    </svg>
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-2">Import Interactive Flow</h3>
+                  <p className="text-sm text-slate-400">
+                    Import prototype screens as a flow with clickable hotspots linking them like in Figma.
+                  </p>
+                </button>
               </div>
             </div>
           )}
@@ -469,15 +585,15 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
-                  {importMode === 'video' ? 'Figma Prototype URL' : 'Figma File URL'}
+                  {importMode === 'frames' ? 'Figma File URL' : 'Figma Prototype URL'}
                 </label>
                 <input
                   type="text"
                   value={figmaUrl}
                   onChange={(e) => setFigmaUrl(e.target.value)}
-                  placeholder={importMode === 'video' 
-                    ? "https://www.figma.com/proto/..." 
-                    : "https://www.figma.com/file/..."
+                  placeholder={importMode === 'frames' 
+                    ? "https://www.figma.com/file/..." 
+                    : "https://www.figma.com/proto/..."
                   }
                   className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
                 />
@@ -485,6 +601,8 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
               <p className="text-sm text-slate-400">
                 {importMode === 'video' 
                   ? 'Paste your Figma prototype URL. You\'ll be able to select screens and configure the video sequence.'
+                  : importMode === 'flow'
+                  ? 'Paste your Figma prototype URL. The prototype\'s links between the selected screens become clickable hotspots.'
                   : 'Paste the URL from your Figma file. Make sure you have configured your Figma access token in the settings.'
                 }
               </p>
@@ -707,6 +825,10 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                 <p className="text-sm text-slate-400 mb-4">
                   Set the video name and metadata for your {sequence.length}-screen video.
                 </p>
+              ) : importMode === 'flow' ? (
+                <p className="text-sm text-slate-400 mb-4">
+                  Set the flow name and metadata for the {selectedFrames.size} imported screens.
+                </p>
               ) : (
                 <p className="text-sm text-slate-400 mb-4">
                   Set metadata for {selectedFrames.size} selected frame{selectedFrames.size > 1 ? 's' : ''}
@@ -727,6 +849,20 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                 </div>
               )}
               
+              {/* Flow Name (only for flow mode) */}
+              {importMode === 'flow' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Flow Name</label>
+                  <input
+                    type="text"
+                    value={flowName}
+                    onChange={(e) => setFlowName(e.target.value)}
+                    placeholder="My Prototype"
+                    className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+                  />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">OEM</label>
@@ -735,7 +871,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                     onChange={(e) => setOem(e.target.value)}
                     className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
                   >
-                    {OEM_OPTIONS.filter(o => o !== 'All OEMs').map(option => (
+                    {taxonomy.oem.map(option => (
                       <option key={option} value={option}>{option}</option>
                     ))}
                   </select>
@@ -748,7 +884,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                     onChange={(e) => setScreenType(e.target.value)}
                     className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
                   >
-                    {SCREEN_TYPE_OPTIONS.filter(o => o !== 'All Types').map(option => (
+                    {taxonomy.screenType.map(option => (
                       <option key={option} value={option}>{option}</option>
                     ))}
                   </select>
@@ -761,7 +897,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                     onChange={(e) => setAssetType(e.target.value)}
                     className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50"
                   >
-                    {ASSET_TYPE_OPTIONS.filter(o => o !== 'All Assets').map(option => (
+                    {taxonomy.assetType.map(option => (
                       <option key={option} value={option}>{option}</option>
                     ))}
                   </select>
@@ -796,6 +932,8 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
               <p className="text-slate-300">
                 {importMode === 'video' 
                   ? `Creating video from ${sequence.length} screens...`
+                  : importMode === 'flow'
+                  ? `Importing ${selectedFrames.size} screens and their prototype links...`
                   : `Importing ${selectedFrames.size} frames from Figma...`
                 }
               </p>
@@ -808,6 +946,9 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                   style={{ width: `${importProgress}%` }}
                 />
               </div>
+              {importMode === 'video' && (
+                <p className="text-sm text-slate-400">{importProgress}%</p>
+              )}
             </div>
           )}
 
@@ -821,14 +962,26 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
               </div>
               <div className="text-center">
                 <h3 className="text-xl font-semibold text-white mb-2">
-                  {importMode === 'video' ? 'Video Created!' : 'Import Complete!'}
+                  {importMode === 'video' ? 'Video Created!' : importMode === 'flow' ? 'Flow Created!' : 'Import Complete!'}
                 </h3>
                 <p className="text-slate-400">
                   {importMode === 'video' 
                     ? `Successfully created video from ${importedCount} screens`
-                    : `Successfully imported ${importedCount} frame${importedCount > 1 ? 's' : ''} from Figma`
+                    : importMode === 'flow'
+                    ? `Imported ${importedCount} screens with ${importedHotspots} hotspot${importedHotspots === 1 ? '' : 's'}`
+                    : `Successfully imported ${importedCount} frame${importedCount !== 1 ? 's' : ''} from Figma`
                   }
                 </p>
+                {importMode === 'frames' && existingCount > 0 && (
+                  <p className="text-sm text-slate-500 mt-1">
+                    {existingCount} frame{existingCount !== 1 ? 's were' : ' was'} already in the library and reused
+                  </p>
+                )}
+                {importMode === 'flow' && (
+                  <Link href="/flows" onClick={handleDone} className="inline-block mt-3 text-sm text-violet-400 hover:text-violet-300 transition-colors">
+                    Open it on the Flows page →
+                  </Link>
+                )}
               </div>
             </div>
           )}
@@ -876,7 +1029,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
               </button>
               <button
                 onClick={handleProceedFromSelect}
-                disabled={selectedFrames.size === 0 || (importMode === 'video' && selectedFrames.size < 2)}
+                disabled={selectedFrames.size === 0 || (importMode !== 'frames' && selectedFrames.size < 2)}
                 className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Continue ({selectedFrames.size} selected)
@@ -911,7 +1064,7 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                 Back
               </button>
               <button
-                onClick={importMode === 'video' ? handleCreateVideo : handleImportFrames}
+                onClick={importMode === 'video' ? handleCreateVideo : importMode === 'flow' ? handleImportFlow : handleImportFrames}
                 className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all flex items-center gap-2"
               >
                 {importMode === 'video' ? (
@@ -922,6 +1075,8 @@ export default function FigmaImportModal({ isOpen, onClose, onSuccess }: FigmaIm
                     </svg>
                     Create Video
                   </>
+                ) : importMode === 'flow' ? (
+                  'Create Flow'
                 ) : (
                   'Import Frames'
                 )}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+
+interface FigmaFileStatus {
+  fileId: string
+  fileName: string
+  assetCount: number
+  syncedAt: string
+  lastModified: string | null
+  hasUpdates: boolean
+  error?: string
+}
+
+interface SyncResult {
+  updated: number
+  unchanged: number
+  missing: string[]
+}
+
+export default function FigmaSyncPanel() {
+  const [files, setFiles] = useState<FigmaFileStatus[] | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [syncingFileId, setSyncingFileId] = useState<string | null>(null)
+  const [keepVersions, setKeepVersions] = useState(true)
+  const [results, setResults] = useState<Record<string, SyncResult>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCheck = async () => {
+    setChecking(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/figma/check-updates')
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to check for updates')
+      }
+      setFiles(data.files)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check for updates')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleSync = async (fileId: string) => {
+    setSyncingFileId(fileId)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/figma/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileKey: fileId, keepVersions }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to sync from Figma')
+      }
+
+      setResults(prev => ({ ...prev, [fileId]: data }))
+      setFiles(prev => prev?.map(file =>
+        file.fileId === fileId
+          ? { ...file, hasUpdates: false, syncedAt: new Date().toISOString() }
+          : file
+      ) || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync from Figma')
+    } finally {
+      setSyncingFileId(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-slate-800/50 rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700/50 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Figma Sync</h3>
+          <p className="text-sm text-slate-400">Refresh imported assets when their Figma file changes</p>
+        </div>
+        <button
+          onClick={handleCheck}
+          disabled={checking || syncingFileId !== null}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-xl font-medium transition-all disabled:opacity-50"
+        >
+          {checking ? 'Checking...' : 'Check for Updates'}
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-500/20 text-red-300">
+            {error}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={keepVersions}
+            onChange={(e) => setKeepVersions(e.target.checked)}
+            className="rounded border-slate-600 bg-slate-900/50 text-violet-500 focus:ring-violet-500/50"
+          />
+          Keep the previous image as an asset version
+        </label>
+
+        {files === null ? (
+          <p className="text-sm text-slate-500">Check for updates to see the Figma files your assets came from.</p>
+        ) : files.length === 0 ? (
+          <p className="text-sm text-slate-500">No assets have been imported from Figma yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {files.map(file => {
+              const result = results[file.fileId]
+              return (
+                <div
+                  key={file.fileId}
+                  className="flex items-center gap-4 px-4 py-3 bg-slate-900/50 border border-slate-700/50 rounded-xl"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{file.fileName}</p>
+                    <p className="text-xs text-slate-400">
+                      {file.assetCount} assets • Synced {new Date(file.syncedAt).toLocaleString()}
+                    </p>
+                    {file.error ? (
+                      <p className="text-xs text-red-400 mt-1">{file.error}</p>
+                    ) : result ? (
+                      <p className="text-xs text-emerald-400 mt-1">
+                        {result.updated} updated, {result.unchanged} unchanged
+                        {result.missing.length > 0 && ` • Missing in Figma: ${result.missing.join(', ')}`}
+                      </p>
+                    ) : file.hasUpdates ? (
+                      <p className="text-xs text-amber-400 mt-1">
+                        Changed in Figma {new Date(file.lastModified!).toLocaleString()}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-slate-500 mt-1">Up to date</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleSync(file.fileId)}
+                    disabled={syncingFileId !== null || !!file.error}
+                    className={`px-4 py-2 text-sm rounded-lg font-medium transition-all disabled:opacity-50 ${
+                      file.hasUpdates
+                        ? 'bg-violet-600 hover:bg-violet-500 text-white'
+                        : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+                    }`}
+                  >
+                    {syncingFileId === file.fileId ? 'Syncing...' : 'Sync All'}
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
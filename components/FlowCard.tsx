@@ -7,6 +7,7 @@ interface Asset {
   id: string
   name: string
   url: string
+  thumbnailUrl?: string | null
   format: string
 }
 
@@ -26,15 +27,32 @@ interface Flow {
   createdAt: string
 }
 
+type ExportFormat = 'mp4' | 'webm' | 'gif'
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'mp4', label: 'MP4', description: 'Best for slides and email' },
+  { value: 'webm', label: 'WebM', description: 'Smaller, for the web' },
+  { value: 'gif', label: 'GIF', description: 'Plays anywhere, lower quality' },
+]
+
+// How often to poll the export job for progress
+const JOB_POLL_INTERVAL = 1000
+
 interface FlowCardProps {
   flow: Flow
   onClick: () => void
+  onEdit: () => void
+  onHistory: () => void
   onDelete: () => void
 }
 
-export default function FlowCard({ flow, onClick, onDelete }: FlowCardProps) {
+export default function FlowCard({ flow, onClick, onEdit, onHistory, onDelete }: FlowCardProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null)
+  const [exportProgress, setExportProgress] = useState(0)
+  const [exportError, setExportError] = useState<string | null>(null)
 
   const handleDelete = async (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -59,6 +77,60 @@ export default function FlowCard({ flow, onClick, onDelete }: FlowCardProps) {
     setShowDeleteConfirm(false)
   }
 
+  const openExportMenu = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setExportError(null)
+    setShowExportMenu(true)
+  }
+
+  // Render the flow on the server, wait for the job, then download the file
+  const handleExport = async (e: React.MouseEvent, format: ExportFormat) => {
+    e.stopPropagation()
+    setShowExportMenu(false)
+    setExportingFormat(format)
+    setExportProgress(0)
+    setExportError(null)
+
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/export?format=${format}`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to export flow')
+      }
+
+      let job = data.job
+      while (job.status !== 'completed') {
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+        const jobRes = await fetch(`/api/jobs/${job.id}`)
+        const jobData = await jobRes.json()
+        if (!jobRes.ok) {
+          throw new Error(jobData.error || 'Failed to check export progress')
+        }
+        job = jobData.job
+        setExportProgress(job.progress)
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Export failed')
+        }
+      }
+
+      const response = await fetch(job.outputUrl)
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = job.outputFilename || `${flow.name}.${format}`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Failed to export flow:', error)
+      setExportError(error instanceof Error ? error.message : 'Failed to export flow')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   // Get first few frames for preview
   const previewFrames = flow.frames.slice(0, 4)
 
@@ -76,7 +148,7 @@ export default function FlowCard({ flow, onClick, onDelete }: FlowCardProps) {
             {previewFrames.map((frame, index) => (
               <div key={frame.id} className={`relative ${previewFrames.length === 3 && index === 2 ? 'col-span-2' : ''}`}>
                 <Image
-                  src={frame.asset.url}
+                  src={frame.asset.thumbnailUrl ?? frame.asset.url}
                   alt={frame.asset.name}
                   fill
                   className="object-cover"
@@ -129,15 +201,112 @@ export default function FlowCard({ flow, onClick, onDelete }: FlowCardProps) {
         </div>
       </div>
 
-      {/* Delete Button */}
-      <button
-        onClick={handleDelete}
-        className="absolute top-3 left-3 p-2 bg-black/60 backdrop-blur-sm rounded-lg text-slate-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
-      >
-        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-        </svg>
-      </button>
+      {/* Card Actions */}
+      <div className="absolute top-3 left-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-all">
+        <button
+          onClick={handleDelete}
+          className="p-2 bg-black/60 backdrop-blur-sm rounded-lg text-slate-400 hover:text-red-400 transition-colors"
+          title="Delete flow"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onEdit() }}
+          className="p-2 bg-black/60 backdrop-blur-sm rounded-lg text-slate-400 hover:text-violet-400 transition-colors"
+          title="Edit flow"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onHistory() }}
+          className="p-2 bg-black/60 backdrop-blur-sm rounded-lg text-slate-400 hover:text-violet-400 transition-colors"
+          title="Version history"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+        <button
+          onClick={openExportMenu}
+          disabled={exportingFormat !== null}
+          className="p-2 bg-black/60 backdrop-blur-sm rounded-lg text-slate-400 hover:text-violet-400 transition-colors disabled:opacity-50"
+          title="Export or download"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Export Format Menu */}
+      {showExportMenu && (
+        <div 
+          className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-10"
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="w-full p-4 space-y-2">
+            <p className="text-white text-center mb-3">Export flow as</p>
+            {EXPORT_FORMATS.map(option => (
+              <button
+                key={option.value}
+                onClick={(e) => handleExport(e, option.value)}
+                className="w-full px-4 py-2 text-left bg-slate-700/70 hover:bg-slate-600 rounded-lg transition-colors"
+              >
+                <span className="text-sm font-medium text-white">{option.label}</span>
+                <span className="ml-2 text-xs text-slate-400">{option.description}</span>
+              </button>
+            ))}
+            <a
+              href={`/api/flows/${flow.id}/download`}
+              onClick={() => setShowExportMenu(false)}
+              className="block w-full px-4 py-2 text-left bg-slate-700/70 hover:bg-slate-600 rounded-lg transition-colors"
+            >
+              <span className="text-sm font-medium text-white">ZIP</span>
+              <span className="ml-2 text-xs text-slate-400">Original frames in order, with a manifest</span>
+            </a>
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowExportMenu(false) }}
+              className="w-full px-4 py-2 text-sm text-slate-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Export Progress */}
+      {(exportingFormat || exportError) && (
+        <div 
+          className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-10"
+          onClick={e => e.stopPropagation()}
+        >
+          {exportingFormat ? (
+            <div className="w-full max-w-[200px] text-center space-y-3">
+              <p className="text-white text-sm">Rendering {exportingFormat.toUpperCase()}... {exportProgress}%</p>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div 
+                  className="h-full bg-gradient-to-r from-violet-500 to-fuchsia-500 transition-all duration-300"
+                  style={{ width: `${exportProgress}%` }}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="text-center p-4">
+              <p className="text-red-300 text-sm mb-4">{exportError}</p>
+              <button
+                onClick={(e) => { e.stopPropagation(); setExportError(null) }}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Delete Confirmation */}
       {showDeleteConfirm && (
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { TRANSITION_OPTIONS } from '@/lib/transitions'
+
+interface VersionSummary {
+  id: string
+  version: number
+  note: string | null
+  name: string
+  frameCount: number
+  createdAt: string
+}
+
+interface FrameChange {
+  assetId: string
+  assetName: string
+}
+
+interface VersionDiff {
+  renamed: { from: string; to: string } | null
+  descriptionChanged: boolean
+  added: Array<FrameChange & { position: number }>
+  removed: Array<FrameChange & { position: number }>
+  moved: Array<FrameChange & { from: number; to: number }>
+  delayChanged: Array<FrameChange & { from: number; to: number }>
+  transitionChanged: Array<FrameChange & { from: string; to: string }>
+}
+
+interface FlowHistoryModalProps {
+  flow: { id: string; name: string }
+  onClose: () => void
+  onRestored: () => void
+}
+
+type CompareMode = 'previous' | 'current'
+
+const transitionLabel = (value: string) =>
+  TRANSITION_OPTIONS.find(option => option.value === value)?.label || value
+
+function DiffSummary({ diff }: { diff: VersionDiff }) {
+  const changes = [
+    ...(diff.renamed ? [`Renamed from "${diff.renamed.from}" to "${diff.renamed.to}"`] : []),
+    ...(diff.descriptionChanged ? ['Description changed'] : []),
+    ...diff.added.map(c => `Added "${c.assetName}" at position ${c.position}`),
+    ...diff.removed.map(c => `Removed "${c.assetName}" from position ${c.position}`),
+    ...diff.moved.map(c => `Moved "${c.assetName}" from position ${c.from} to ${c.to}`),
+    ...diff.delayChanged.map(c => `"${c.assetName}" delay ${c.from}ms → ${c.to}ms`),
+    ...diff.transitionChanged.map(c => `"${c.assetName}" transition ${transitionLabel(c.from)} → ${transitionLabel(c.to)}`),
+  ]
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-slate-500">No changes</p>
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {changes.map((change, index) => (
+        <li key={index} className="text-sm text-slate-300 flex gap-2">
+          <span className="text-violet-400">•</span>
+          {change}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function FlowHistoryModal({ flow, onClose, onRestored }: FlowHistoryModalProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([])
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous')
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingDiff, setLoadingDiff] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [confirmRestore, setConfirmRestore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/versions`)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load history')
+      }
+      setVersions(data.versions)
+      if (data.versions.length > 0) {
+        setSelectedVersion(current => current ?? data.versions[0].version)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }, [flow.id])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  // Load the changes for the selected version
+  useEffect(() => {
+    if (selectedVersion === null) return
+
+    let cancelled = false
+    const loadDiff = async () => {
+      setLoadingDiff(true)
+      setConfirmRestore(false)
+      try {
+        const compare = compareMode === 'current' ? '?compare=current' : ''
+        const res = await fetch(`/api/flows/${flow.id}/versions/${selectedVersion}${compare}`)
+        const data = await res.json()
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load changes')
+        }
+        if (!cancelled) setDiff(data.diff)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load changes')
+      } finally {
+        if (!cancelled) setLoadingDiff(false)
+      }
+    }
+
+    loadDiff()
+    return () => { cancelled = true }
+  }, [flow.id, selectedVersion, compareMode])
+
+  const handleRestore = async () => {
+    if (selectedVersion === null) return
+    setRestoring(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/versions/${selectedVersion}/restore`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to restore version')
+      }
+
+      setConfirmRestore(false)
+      setSelectedVersion(null)
+      await fetchVersions()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const latestVersion = versions[0]?.version
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-slate-800 rounded-2xl overflow-hidden w-full max-w-3xl max-h-[90vh] shadow-2xl border border-slate-700 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Version History</h2>
+            <p className="text-sm text-slate-400">{flow.name}</p>
+          </div>
+          <button
+            className="p-2 text-slate-400 hover:text-white transition-colors"
+            onClick={onClose}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          {loading ? (
+            <div className="flex-1 flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="flex-1 text-center py-12">
+              <p className="text-slate-400">No history yet. Versions are saved every time the flow is edited.</p>
+            </div>
+          ) : (
+            <>
+              {/* Version List */}
+              <div className="w-64 border-r border-slate-700 overflow-y-auto p-3 space-y-1">
+                {versions.map(version => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedVersion(version.version)}
+                    className={`w-full px-3 py-2 rounded-lg text-left transition-colors ${
+                      selectedVersion === version.version ? 'bg-violet-500/20' : 'hover:bg-slate-700/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-white">Version {version.version}</span>
+                      {version.version === latestVersion && (
+                        <span className="text-[10px] px-1.5 py-0.5 bg-emerald-500/20 text-emerald-400 rounded">Current</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {version.note || 'Saved'} • {version.frameCount} frames
+                    </p>
+                    <p className="text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()}</p>
+                  </button>
+                ))}
+              </div>
+
+              {/* Changes */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setCompareMode('previous')}
+                    className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                      compareMode === 'previous' ? 'bg-violet-500/20 text-violet-300' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    Changes in this version
+                  </button>
+                  <button
+                    onClick={() => setCompareMode('current')}
+                    className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                      compareMode === 'current' ? 'bg-violet-500/20 text-violet-300' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    Restoring would change
+                  </button>
+                </div>
+
+                {loadingDiff || !diff ? (
+                  <div className="space-y-2">
+                    {[1, 2, 3].map(i => (
+                      <div key={i} className="h-4 bg-slate-700 rounded animate-pulse" />
+                    ))}
+                  </div>
+                ) : (
+                  <DiffSummary diff={diff} />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700 bg-slate-900/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+          >
+            Close
+          </button>
+          {selectedVersion !== null && selectedVersion !== latestVersion && (
+            confirmRestore ? (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-slate-300">Restore version {selectedVersion}?</span>
+                <button
+                  onClick={() => setConfirmRestore(false)}
+                  className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={restoring}
+                  className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all disabled:opacity-50"
+                >
+                  {restoring ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmRestore(true)}
+                className="px-6 py-2.5 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-medium rounded-xl transition-all"
+              >
+                Restore This Version
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,20 +2,35 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import Image from 'next/image'
+import { DEFAULT_TRANSITION_DURATIONS, FrameTransition, TRANSITION_OPTIONS, isFrameTransition } from '@/lib/transitions'
+import { HotspotRect, MIN_HOTSPOT_SIZE } from '@/lib/hotspots'
 
 interface Asset {
   id: string
   name: string
   url: string
+  thumbnailSmallUrl?: string | null
   format: string
 }
 
+interface FlowHotspot {
+  id: string
+  targetFrameId: string
+  x: number // fractions (0-1) of the frame size
+  y: number
+  width: number
+  height: number
+}
+
 interface FlowFrame {
   id: string
   assetId: string
   order: number
   delay: number
+  transition: string
+  transitionDuration: number
   asset: Asset
+  hotspots?: FlowHotspot[]
 }
 
 interface Flow {
@@ -25,31 +40,101 @@ interface Flow {
   frames: FlowFrame[]
 }
 
+// A transition in progress from one frame to the current one
+interface ActiveTransition {
+  fromIndex: number
+  type: Exclude<FrameTransition, 'cut'>
+  duration: number // ms
+  direction: 1 | -1 // 1 when moving forward through the flow
+  key: number
+}
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov']
+
+function FrameMedia({ frame }: { frame: FlowFrame }) {
+  if (VIDEO_FORMATS.includes(frame.asset.format)) {
+    return (
+      <video
+        src={frame.asset.url}
+        className="max-h-[70vh] w-auto rounded-lg shadow-2xl"
+        autoPlay
+        loop
+        muted
+      />
+    )
+  }
+
+  return (
+    <Image
+      src={frame.asset.url}
+      alt={frame.asset.name}
+      width={800}
+      height={1200}
+      className="max-h-[70vh] w-auto object-contain rounded-lg shadow-2xl"
+    />
+  )
+}
+
 interface FlowViewerProps {
   flow: Flow
   onClose: () => void
+  onHotspotsChange?: () => void
 }
 
-export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
+export default function FlowViewer({ flow, onClose, onHotspotsChange }: FlowViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [showThumbnails, setShowThumbnails] = useState(true)
+  const [showHotspots, setShowHotspots] = useState(false)
+  const [activeTransition, setActiveTransition] = useState<ActiveTransition | null>(null)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
 
+  // Hotspot editor
+  const [hotspots, setHotspots] = useState<Record<string, FlowHotspot[]>>(
+    () => Object.fromEntries(flow.frames.map(frame => [frame.id, frame.hotspots || []]))
+  )
+  const [isEditingHotspots, setIsEditingHotspots] = useState(false)
+  const [draftRect, setDraftRect] = useState<HotspotRect | null>(null)
+  const [draftTarget, setDraftTarget] = useState('')
+  const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(null)
+  const [savingHotspot, setSavingHotspot] = useState(false)
+  const [hotspotError, setHotspotError] = useState<string | null>(null)
+  const drawStartRef = useRef<{ x: number; y: number } | null>(null)
+
   const currentFrame = flow.frames[currentIndex]
+  const currentHotspots = currentFrame ? hotspots[currentFrame.id] || [] : []
+  const hasHotspots = Object.values(hotspots).some(list => list.length > 0)
+
+  // Move to a frame, animating with the transition between the two frames
+  // Stepping back plays the transition of the frame being returned to in reverse
+  const goToFrame = useCallback((index: number, direction?: 1 | -1) => {
+    if (index === currentIndex || !flow.frames[index]) return
+
+    const moveDirection = direction || (index > currentIndex ? 1 : -1)
+    const source = moveDirection === 1 ? flow.frames[currentIndex] : flow.frames[index]
+    const type = isFrameTransition(source.transition) ? source.transition : 'cut'
+
+    if (type === 'cut') {
+      setActiveTransition(null)
+    } else {
+      setActiveTransition(prev => ({
+        fromIndex: currentIndex,
+        type,
+        duration: source.transitionDuration || DEFAULT_TRANSITION_DURATIONS[type],
+        direction: moveDirection,
+        key: (prev?.key || 0) + 1,
+      }))
+    }
+    setCurrentIndex(index)
+  }, [currentIndex, flow.frames])
 
   // Auto-play logic
   useEffect(() => {
     if (isPlaying && flow.frames.length > 1) {
       const delay = currentFrame?.delay || 1000
       intervalRef.current = setTimeout(() => {
-        setCurrentIndex(prev => {
-          if (prev >= flow.frames.length - 1) {
-            // Loop back or stop at end
-            return 0
-          }
-          return prev + 1
-        })
+        // Loop back to the start after the last frame
+        goToFrame(currentIndex >= flow.frames.length - 1 ? 0 : currentIndex + 1, 1)
       }, delay)
     }
 
@@ -58,15 +143,155 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
         clearTimeout(intervalRef.current)
       }
     }
-  }, [isPlaying, currentIndex, currentFrame, flow.frames.length])
+  }, [isPlaying, currentIndex, currentFrame, flow.frames.length, goToFrame])
 
   const handlePrevious = useCallback(() => {
-    setCurrentIndex(prev => Math.max(0, prev - 1))
-  }, [])
+    goToFrame(Math.max(0, currentIndex - 1))
+  }, [currentIndex, goToFrame])
 
   const handleNext = useCallback(() => {
-    setCurrentIndex(prev => Math.min(flow.frames.length - 1, prev + 1))
-  }, [flow.frames.length])
+    goToFrame(Math.min(flow.frames.length - 1, currentIndex + 1))
+  }, [currentIndex, flow.frames.length, goToFrame])
+
+  // Jump to the frame a hotspot links to, or select it while editing
+  const handleHotspotClick = (hotspot: FlowHotspot) => {
+    if (isEditingHotspots) {
+      setSelectedHotspotId(hotspot.id)
+      setDraftRect(null)
+      return
+    }
+
+    const targetIndex = flow.frames.findIndex(frame => frame.id === hotspot.targetFrameId)
+    if (targetIndex === -1) return
+    setIsPlaying(false)
+    goToFrame(targetIndex)
+  }
+
+  const toggleHotspotEditor = () => {
+    setIsEditingHotspots(prev => !prev)
+    setIsPlaying(false)
+    setDraftRect(null)
+    setSelectedHotspotId(null)
+    setHotspotError(null)
+  }
+
+  // Clear the editor selection when moving to another frame
+  useEffect(() => {
+    setDraftRect(null)
+    setSelectedHotspotId(null)
+  }, [currentIndex])
+
+  // Pointer position as fractions (0-1) of the frame
+  const pointerToFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    }
+  }
+
+  const handleDrawStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const point = pointerToFraction(e)
+    drawStartRef.current = point
+    setDraftRect({ ...point, width: 0, height: 0 })
+    setDraftTarget('')
+    setSelectedHotspotId(null)
+    setHotspotError(null)
+  }
+
+  const handleDrawMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = drawStartRef.current
+    if (!start) return
+    const point = pointerToFraction(e)
+    setDraftRect({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    })
+  }
+
+  const handleDrawEnd = () => {
+    drawStartRef.current = null
+    if (!draftRect || draftRect.width < MIN_HOTSPOT_SIZE || draftRect.height < MIN_HOTSPOT_SIZE) {
+      setDraftRect(null)
+      return
+    }
+    // Link to the next frame by default
+    const fallback = flow.frames[currentIndex + 1] || flow.frames.find(frame => frame.id !== currentFrame.id)
+    setDraftTarget(fallback?.id || '')
+  }
+
+  const handleSaveHotspot = async () => {
+    if (!draftRect || !draftTarget) return
+    setSavingHotspot(true)
+    setHotspotError(null)
+
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/hotspots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ frameId: currentFrame.id, targetFrameId: draftTarget, ...draftRect }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save hotspot')
+      }
+
+      setHotspots(prev => ({ ...prev, [currentFrame.id]: [...(prev[currentFrame.id] || []), data.hotspot] }))
+      setDraftRect(null)
+      setSelectedHotspotId(data.hotspot.id)
+      onHotspotsChange?.()
+    } catch (err) {
+      setHotspotError(err instanceof Error ? err.message : 'Failed to save hotspot')
+    } finally {
+      setSavingHotspot(false)
+    }
+  }
+
+  const handleRelinkHotspot = async (hotspot: FlowHotspot, targetFrameId: string) => {
+    setHotspotError(null)
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/hotspots/${hotspot.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetFrameId }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update hotspot')
+      }
+
+      setHotspots(prev => ({
+        ...prev,
+        [currentFrame.id]: (prev[currentFrame.id] || []).map(h => h.id === hotspot.id ? data.hotspot : h),
+      }))
+      onHotspotsChange?.()
+    } catch (err) {
+      setHotspotError(err instanceof Error ? err.message : 'Failed to update hotspot')
+    }
+  }
+
+  const handleDeleteHotspot = async (hotspot: FlowHotspot) => {
+    setHotspotError(null)
+    try {
+      const res = await fetch(`/api/flows/${flow.id}/hotspots/${hotspot.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to delete hotspot')
+      }
+
+      setHotspots(prev => ({
+        ...prev,
+        [currentFrame.id]: (prev[currentFrame.id] || []).filter(h => h.id !== hotspot.id),
+      }))
+      setSelectedHotspotId(null)
+      onHotspotsChange?.()
+    } catch (err) {
+      setHotspotError(err instanceof Error ? err.message : 'Failed to delete hotspot')
+    }
+  }
 
   const togglePlay = useCallback(() => {
     setIsPlaying(prev => !prev)
@@ -75,6 +300,9 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave keys alone while a form control in the hotspot editor has focus
+      if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return
+
       switch (e.key) {
         case 'ArrowLeft':
           handlePrevious()
@@ -87,14 +315,20 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
           togglePlay()
           break
         case 'Escape':
-          onClose()
+          if (isEditingHotspots) {
+            setIsEditingHotspots(false)
+            setDraftRect(null)
+            setSelectedHotspotId(null)
+          } else {
+            onClose()
+          }
           break
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handlePrevious, handleNext, togglePlay, onClose])
+  }, [handlePrevious, handleNext, togglePlay, onClose, isEditingHotspots])
 
   if (!currentFrame) {
     return null
@@ -128,6 +362,28 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          {flow.frames.length > 1 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); toggleHotspotEditor() }}
+              className={`p-2 rounded-lg transition-colors ${isEditingHotspots ? 'bg-violet-500/20 text-violet-400' : 'text-slate-400 hover:text-white'}`}
+              title="Edit hotspots"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+          )}
+          {hasHotspots && !isEditingHotspots && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowHotspots(!showHotspots) }}
+              className={`p-2 rounded-lg transition-colors ${showHotspots ? 'bg-violet-500/20 text-violet-400' : 'text-slate-400 hover:text-white'}`}
+              title="Highlight clickable areas"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+              </svg>
+            </button>
+          )}
           <button
             onClick={(e) => { e.stopPropagation(); setShowThumbnails(!showThumbnails) }}
             className={`p-2 rounded-lg transition-colors ${showThumbnails ? 'bg-violet-500/20 text-violet-400' : 'text-slate-400 hover:text-white'}`}
@@ -168,24 +424,78 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
             </button>
           )}
 
-          {/* Current Frame */}
-          <div className="relative">
-            {currentFrame.asset.format === 'mp4' || currentFrame.asset.format === 'webm' || currentFrame.asset.format === 'mov' ? (
-              <video
-                src={currentFrame.asset.url}
-                className="max-h-[70vh] w-auto rounded-lg shadow-2xl"
-                autoPlay
-                loop
-                muted
-              />
-            ) : (
-              <Image
-                src={currentFrame.asset.url}
-                alt={currentFrame.asset.name}
-                width={800}
-                height={1200}
-                className="max-h-[70vh] w-auto object-contain rounded-lg shadow-2xl"
-              />
+          {/* Current Frame, with the previous frame animating out over it */}
+          <div
+            className={`relative ${activeTransition?.type === 'slide' ? 'overflow-hidden rounded-lg' : ''}`}
+            style={{ '--flow-slide-direction': activeTransition?.direction || 1 } as React.CSSProperties}
+          >
+            <div
+              key={activeTransition ? `in-${activeTransition.key}` : 'in'}
+              className="relative flex"
+              style={activeTransition?.type === 'slide'
+                ? { animation: `flowSlideIn ${activeTransition.duration}ms ease-in-out both` }
+                : undefined}
+            >
+              <FrameMedia frame={currentFrame} />
+
+              {/* Hotspots - larger regions first so nested ones stay clickable */}
+              {/* While editing, dragging on the frame draws a new hotspot */}
+              {!activeTransition && (isEditingHotspots || currentHotspots.length > 0) && (
+                <div
+                  className={`absolute inset-0 ${isEditingHotspots ? 'cursor-crosshair touch-none' : ''}`}
+                  onPointerDown={isEditingHotspots ? handleDrawStart : undefined}
+                  onPointerMove={isEditingHotspots ? handleDrawMove : undefined}
+                  onPointerUp={isEditingHotspots ? handleDrawEnd : undefined}
+                >
+                  {[...currentHotspots]
+                    .sort((a, b) => b.width * b.height - a.width * a.height)
+                    .map(hotspot => (
+                      <button
+                        key={hotspot.id}
+                        onPointerDown={e => e.stopPropagation()}
+                        onClick={() => handleHotspotClick(hotspot)}
+                        className={`absolute rounded border-2 transition-colors ${
+                          isEditingHotspots && hotspot.id === selectedHotspotId
+                            ? 'border-fuchsia-400 bg-fuchsia-500/30'
+                            : showHotspots || isEditingHotspots
+                            ? 'border-violet-400/80 bg-violet-500/20'
+                            : 'border-transparent hover:border-violet-400/80 hover:bg-violet-500/20'
+                        }`}
+                        style={{
+                          left: `${hotspot.x * 100}%`,
+                          top: `${hotspot.y * 100}%`,
+                          width: `${hotspot.width * 100}%`,
+                          height: `${hotspot.height * 100}%`,
+                        }}
+                      />
+                    ))}
+
+                  {draftRect && (
+                    <div
+                      className="absolute rounded border-2 border-dashed border-fuchsia-400 bg-fuchsia-500/20 pointer-events-none"
+                      style={{
+                        left: `${draftRect.x * 100}%`,
+                        top: `${draftRect.y * 100}%`,
+                        width: `${draftRect.width * 100}%`,
+                        height: `${draftRect.height * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {activeTransition && flow.frames[activeTransition.fromIndex] && (
+              <div
+                key={`out-${activeTransition.key}`}
+                className="absolute inset-0 flex items-center justify-center pointer-events-none"
+                style={{
+                  animation: `${activeTransition.type === 'slide' ? 'flowSlideOut' : 'flowFadeOut'} ${activeTransition.duration}ms ease-in-out forwards`,
+                }}
+                onAnimationEnd={() => setActiveTransition(null)}
+              >
+                <FrameMedia frame={flow.frames[activeTransition.fromIndex]} />
+              </div>
             )}
           </div>
         </div>
@@ -196,6 +506,83 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
         className="px-6 py-4 bg-slate-900/80 backdrop-blur-sm"
         onClick={e => e.stopPropagation()}
       >
+        {/* Hotspot Editor */}
+        {isEditingHotspots && (
+          <div className="max-w-xl mx-auto mb-4 p-4 bg-slate-800/80 border border-slate-700 rounded-xl space-y-3">
+            {hotspotError && (
+              <p className="text-sm text-red-300">{hotspotError}</p>
+            )}
+
+            {draftRect && draftTarget ? (
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-slate-300">New hotspot links to:</label>
+                <select
+                  value={draftTarget}
+                  onChange={(e) => setDraftTarget(e.target.value)}
+                  className="flex-1 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white text-sm focus:outline-none focus:ring-1 focus:ring-violet-500"
+                >
+                  {flow.frames.map((frame, index) => frame.id !== currentFrame.id && (
+                    <option key={frame.id} value={frame.id}>{index + 1}. {frame.asset.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSaveHotspot}
+                  disabled={savingHotspot}
+                  className="px-3 py-1 bg-violet-600 hover:bg-violet-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {savingHotspot ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setDraftRect(null)}
+                  className="px-3 py-1 text-sm text-slate-400 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">
+                Drag on the screen to draw a clickable area, or click an existing one to change it.
+              </p>
+            )}
+
+            {currentHotspots.length > 0 && (
+              <div className="space-y-2">
+                {currentHotspots.map((hotspot, hotspotIndex) => (
+                  <div
+                    key={hotspot.id}
+                    className={`flex items-center gap-2 px-2 py-1 rounded-lg ${hotspot.id === selectedHotspotId ? 'bg-fuchsia-500/10' : ''}`}
+                  >
+                    <button
+                      onClick={() => setSelectedHotspotId(hotspot.id)}
+                      className="text-sm text-slate-300 hover:text-white whitespace-nowrap"
+                    >
+                      Hotspot {hotspotIndex + 1} →
+                    </button>
+                    <select
+                      value={hotspot.targetFrameId}
+                      onChange={(e) => handleRelinkHotspot(hotspot, e.target.value)}
+                      className="flex-1 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white text-sm focus:outline-none focus:ring-1 focus:ring-violet-500"
+                    >
+                      {flow.frames.map((frame, index) => frame.id !== currentFrame.id && (
+                        <option key={frame.id} value={frame.id}>{index + 1}. {frame.asset.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleDeleteHotspot(hotspot)}
+                      className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                      title="Delete hotspot"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Playback Controls */}
         <div className="flex items-center justify-center gap-4 mb-4">
           <button
@@ -239,7 +626,7 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
           {flow.frames.map((_, index) => (
             <button
               key={index}
-              onClick={() => setCurrentIndex(index)}
+              onClick={() => goToFrame(index)}
               className={`flex-1 h-1.5 rounded-full transition-all ${
                 index === currentIndex
                   ? 'bg-violet-500'
@@ -257,7 +644,7 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
             {flow.frames.map((frame, index) => (
               <button
                 key={frame.id}
-                onClick={() => setCurrentIndex(index)}
+                onClick={() => goToFrame(index)}
                 className={`relative flex-shrink-0 w-16 h-24 rounded-lg overflow-hidden border-2 transition-all ${
                   index === currentIndex
                     ? 'border-violet-500 ring-2 ring-violet-500/50'
@@ -265,7 +652,7 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
                 }`}
               >
                 <Image
-                  src={frame.asset.url}
+                  src={frame.asset.thumbnailSmallUrl ?? frame.asset.url}
                   alt={frame.asset.name}
                   fill
                   className="object-cover"
@@ -282,7 +669,11 @@ export default function FlowViewer({ flow, onClose }: FlowViewerProps) {
         <div className="text-center mt-2">
           <p className="text-sm text-white font-medium">{currentFrame.asset.name}</p>
           <p className="text-xs text-slate-400">
-            {currentFrame.delay}ms delay • Press Space to play/pause
+            {currentFrame.delay}ms delay
+            {currentIndex < flow.frames.length - 1 && currentFrame.transition !== 'cut' && (
+              <> • {TRANSITION_OPTIONS.find(o => o.value === currentFrame.transition)?.label || currentFrame.transition} ({currentFrame.transitionDuration}ms)</>
+            )}
+            {' '}• Press Space to play/pause
           </p>
         </div>
       </div>
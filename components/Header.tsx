@@ -5,10 +5,41 @@ import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import FigmaImportModal from './FigmaImportModal'
 
+interface SavedSearch {
+  id: string
+  name: string
+  query: string
+}
+
 export default function Header() {
   const pathname = usePathname()
   const router = useRouter()
   const [showFigmaModal, setShowFigmaModal] = useState(false)
+  const [showSaved, setShowSaved] = useState(false)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[] | null>(null)
+
+  // Loaded on every open so searches saved since the last look show up
+  const openSavedSearches = async () => {
+    setShowSaved(true)
+    try {
+      const res = await fetch('/api/saved-searches')
+      if (res.ok) {
+        const data = await res.json()
+        setSavedSearches(data.savedSearches)
+      }
+    } catch (error) {
+      console.error('Error fetching saved searches:', error)
+    }
+  }
+
+  const handleDeleteSavedSearch = async (id: string) => {
+    setSavedSearches(prev => prev?.filter(search => search.id !== id) || null)
+    try {
+      await fetch(`/api/saved-searches/${id}`, { method: 'DELETE' })
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+    }
+  }
   
   const handleFigmaImportSuccess = () => {
     // Refresh the current page to show new assets
@@ -44,6 +75,84 @@ export default function Header() {
               >
                 Library
               </Link>
+              <Link 
+                href="/collections"
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  pathname.startsWith('/collections') 
+                    ? 'bg-slate-700/50 text-white' 
+                    : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                }`}
+              >
+                Collections
+              </Link>
+              <Link 
+                href="/search"
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  pathname === '/search' 
+                    ? 'bg-slate-700/50 text-white' 
+                    : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                }`}
+              >
+                Search
+              </Link>
+              {/* Saved Searches */}
+              <div className="relative">
+                <button
+                  onClick={() => showSaved ? setShowSaved(false) : openSavedSearches()}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5 ${
+                    showSaved
+                      ? 'bg-slate-700/50 text-white'
+                      : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                  Saved
+                </button>
+
+                {showSaved && (
+                  <>
+                    <div className="fixed inset-0 z-40" onClick={() => setShowSaved(false)} />
+                    <div className="absolute right-0 mt-2 w-72 z-50 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl overflow-hidden">
+                      {savedSearches === null ? (
+                        <p className="px-4 py-3 text-sm text-slate-400">Loading...</p>
+                      ) : savedSearches.length === 0 ? (
+                        <p className="px-4 py-3 text-sm text-slate-400">
+                          No saved searches yet. Filter the library, then choose Save search.
+                        </p>
+                      ) : (
+                        <ul className="max-h-80 overflow-y-auto py-1">
+                          {savedSearches.map(search => (
+                            <li key={search.id} className="group flex items-center hover:bg-slate-700/50">
+                              <Link
+                                href={search.query ? `/?${search.query}` : '/'}
+                                onClick={() => setShowSaved(false)}
+                                className="flex-1 min-w-0 px-4 py-2"
+                              >
+                                <p className="text-sm text-white truncate">{search.name}</p>
+                                <p className="text-xs text-slate-500 truncate">
+                                  {decodeURIComponent(search.query.replace(/\+/g, ' ')) || 'All assets'}
+                                </p>
+                              </Link>
+                              <button
+                                onClick={() => handleDeleteSavedSearch(search.id)}
+                                className="p-2 mr-2 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                                title="Delete saved search"
+                              >
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
               <Link 
                 href="/settings"
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -1,151 +1,219 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-const OEM_OPTIONS = [
-  'All OEMs',
-  'Xiaomi',
-  'Realme',
-  'Motorola',
-  'Samsung',
-  'OnePlus',
-  'OPPO',
-  'Vivo',
-  'Other'
-]
+import { TAXONOMY_LABELS } from '@/lib/taxonomy'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+import type { AssetFacets, AssetFilters, AssetSort, FacetField } from '@/lib/asset-query'
+import TagInput from './TagInput'
 
-const SCREEN_TYPE_OPTIONS = [
-  'All Types',
-  'Lockscreen',
-  'Post-click',
-  'Game',
-  'Home Screen',
-  'Settings',
-  'Notification',
-  'Carousel',
-  'Video Page',
-  'Hub',
-  'Story Page',
-  'Other'
-]
+interface SearchFilterProps {
+  filters: AssetFilters
+  onFilterChange: (filters: AssetFilters) => void
+  facets?: AssetFacets | null
+}
 
-const ASSET_TYPE_OPTIONS = [
-  'All Assets',
-  'Mockup',
-  'Live Experience'
+const SORT_OPTIONS: Array<{ value: AssetSort; label: string }> = [
+  { value: 'createdAt', label: 'Newest' },
+  { value: 'updatedAt', label: 'Recently updated' },
+  { value: 'name', label: 'Name (A-Z)' },
+  { value: 'size', label: 'Largest first' },
+  { value: 'format', label: 'Format' },
 ]
 
-interface SearchFilterProps {
-  onFilterChange: (filters: { search: string; oem: string; screenType: string; assetType: string }) => void
-}
+const ALL_FORMATS = 'All Formats'
+
+export default function SearchFilter({ filters, onFilterChange, facets }: SearchFilterProps) {
+  const { taxonomy } = useTaxonomy()
+  const { search, tags, tagMode } = filters
+
+  const oemOptions = [TAXONOMY_LABELS.oem.all, ...taxonomy.oem]
+  const screenTypeOptions = [TAXONOMY_LABELS.screenType.all, ...taxonomy.screenType]
+  const assetTypeOptions = [TAXONOMY_LABELS.assetType.all, ...taxonomy.assetType]
+  const formatOptions = [ALL_FORMATS, ...(facets?.format.map(facet => facet.value) || [])]
+  const sortOptions: typeof SORT_OPTIONS = search
+    ? [{ value: 'relevance', label: 'Best match' }, ...SORT_OPTIONS]
+    : SORT_OPTIONS
+
+  const update = (changes: Partial<AssetFilters>) => {
+    const next = { ...filters, ...changes }
+    // Best match only applies while searching
+    if (next.sort === 'relevance' && !next.search) next.sort = ''
+    onFilterChange(next)
+  }
 
-export default function SearchFilter({ onFilterChange }: SearchFilterProps) {
-  const [search, setSearch] = useState('')
-  const [oem, setOem] = useState('All OEMs')
-  const [screenType, setScreenType] = useState('All Types')
-  const [assetType, setAssetType] = useState('All Assets')
-
-  useEffect(() => {
-    onFilterChange({
-      search,
-      oem: oem === 'All OEMs' ? '' : oem,
-      screenType: screenType === 'All Types' ? '' : screenType,
-      assetType: assetType === 'All Assets' ? '' : assetType,
-    })
-  }, [search, oem, screenType, assetType, onFilterChange])
+  // The first option of each select is "All ...", which clears that filter
+  const selectValue = (value: string, allLabel: string) => value === allLabel ? '' : value
+
+  // "Samsung (42)" once counts have loaded; the "All" option stays as is
+  const optionLabel = (field: FacetField, option: string, index: number) => {
+    if (!facets || index === 0) return option
+    const count = facets[field].find(facet => facet.value === option)?.count || 0
+    return `${option} (${count})`
+  }
 
   return (
-    <div className="flex flex-col sm:flex-row gap-4 p-6 bg-slate-800/50 rounded-2xl border border-slate-700/50">
-      {/* Search Input */}
-      <div className="flex-1 relative">
-        <svg 
-          className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" 
-          fill="none" 
-          viewBox="0 0 24 24" 
-          stroke="currentColor"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-        </svg>
-        <input
-          type="text"
-          placeholder="Search assets..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="w-full pl-12 pr-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all"
-        />
-      </div>
+    <div className="p-6 bg-slate-800/50 rounded-2xl border border-slate-700/50 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {/* Search Input */}
+        <div className="flex-1 relative">
+          <svg 
+            className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="text"
+            placeholder="Search assets..."
+            value={search}
+            onChange={(e) => update({ search: e.target.value })}
+            className="w-full pl-12 pr-4 py-3 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all"
+          />
+        </div>
 
-      {/* OEM Filter */}
-      <div className="relative">
-        <select
-          value={oem}
-          onChange={(e) => setOem(e.target.value)}
-          className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-        >
-          {OEM_OPTIONS.map(option => (
-            <option key={option} value={option} className="bg-slate-900">
-              {option}
-            </option>
-          ))}
-        </select>
-        <svg 
-          className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
-          fill="none" 
-          viewBox="0 0 24 24" 
-          stroke="currentColor"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-        </svg>
-      </div>
+        {/* OEM Filter */}
+        <div className="relative">
+          <select
+            value={filters.oem || TAXONOMY_LABELS.oem.all}
+            onChange={(e) => update({ oem: selectValue(e.target.value, TAXONOMY_LABELS.oem.all) })}
+            className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
+          >
+            {oemOptions.map((option, index) => (
+              <option key={option} value={option} className="bg-slate-900">
+                {optionLabel('oem', option, index)}
+              </option>
+            ))}
+          </select>
+          <svg 
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+
+        {/* Screen Type Filter */}
+        <div className="relative">
+          <select
+            value={filters.screenType || TAXONOMY_LABELS.screenType.all}
+            onChange={(e) => update({ screenType: selectValue(e.target.value, TAXONOMY_LABELS.screenType.all) })}
+            className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
+          >
+            {screenTypeOptions.map((option, index) => (
+              <option key={option} value={option} className="bg-slate-900">
+                {optionLabel('screenType', option, index)}
+              </option>
+            ))}
+          </select>
+          <svg 
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
 
-      {/* Screen Type Filter */}
-      <div className="relative">
-        <select
-          value={screenType}
-          onChange={(e) => setScreenType(e.target.value)}
-          className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-        >
-          {SCREEN_TYPE_OPTIONS.map(option => (
-            <option key={option} value={option} className="bg-slate-900">
-              {option}
-            </option>
-          ))}
-        </select>
-        <svg 
-          className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
-          fill="none" 
-          viewBox="0 0 24 24" 
-          stroke="currentColor"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-        </svg>
+        {/* Asset Type Filter */}
+        <div className="relative">
+          <select
+            value={filters.assetType || TAXONOMY_LABELS.assetType.all}
+            onChange={(e) => update({ assetType: selectValue(e.target.value, TAXONOMY_LABELS.assetType.all) })}
+            className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
+          >
+            {assetTypeOptions.map((option, index) => (
+              <option key={option} value={option} className="bg-slate-900">
+                {optionLabel('assetType', option, index)}
+              </option>
+            ))}
+          </select>
+          <svg 
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
       </div>
 
-      {/* Asset Type Filter */}
-      <div className="relative">
-        <select
-          value={assetType}
-          onChange={(e) => setAssetType(e.target.value)}
-          className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-        >
-          {ASSET_TYPE_OPTIONS.map(option => (
-            <option key={option} value={option} className="bg-slate-900">
-              {option}
-            </option>
-          ))}
-        </select>
-        <svg 
-          className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
-          fill="none" 
-          viewBox="0 0 24 24" 
-          stroke="currentColor"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-        </svg>
+      {/* Tag Filter */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <TagInput
+          value={tags}
+          onChange={(tags) => update({ tags })}
+          placeholder="Filter by tags..."
+          className="flex-1"
+        />
+        {tags.length > 1 && (
+          <div className="flex items-center gap-1 text-sm">
+            <span className="text-slate-400 mr-1">Match</span>
+            {(['all', 'any'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => update({ tagMode: mode })}
+                className={`px-3 py-1 rounded-lg transition-colors ${
+                  tagMode === mode ? 'bg-violet-500/20 text-violet-300' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {mode === 'all' ? 'All tags' : 'Any tag'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Format Filter */}
+        <div className="relative">
+          <select
+            value={filters.format || ALL_FORMATS}
+            onChange={(e) => update({ format: selectValue(e.target.value, ALL_FORMATS) })}
+            className="appearance-none w-full sm:w-36 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
+          >
+            {formatOptions.map((option, index) => (
+              <option key={option} value={option} className="bg-slate-900">
+                {optionLabel('format', option, index)}
+              </option>
+            ))}
+          </select>
+          <svg 
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+
+        {/* Sort */}
+        <div className="relative">
+          <select
+            value={filters.sort || (search ? 'relevance' : 'createdAt')}
+            onChange={(e) => update({ sort: e.target.value as AssetSort })}
+            className="appearance-none w-full sm:w-44 px-4 py-3 pr-10 bg-slate-900/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
+          >
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value} className="bg-slate-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <svg 
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
       </div>
     </div>
   )
 }
 
-export { OEM_OPTIONS, SCREEN_TYPE_OPTIONS, ASSET_TYPE_OPTIONS }
-
@@ -0,0 +1,95 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+
+interface SimilarAsset {
+  asset: {
+    id: string
+    name: string
+    url: string
+    thumbnailSmallUrl: string | null
+    format: string
+    oem: string
+    screenType: string
+  }
+  similarity: number
+}
+
+interface SimilarResult {
+  assetId: string
+  assets: SimilarAsset[]
+  pending: number
+}
+
+interface SimilarAssetsPanelProps {
+  assetId: string
+}
+
+const VIDEO_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+export default function SimilarAssetsPanel({ assetId }: SimilarAssetsPanelProps) {
+  // Keyed by asset so a stale result never shows for another asset
+  const [result, setResult] = useState<SimilarResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/assets/${assetId}/similar`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Failed to load similar assets')))
+      .then(data => setResult({ assetId, assets: data.assets, pending: data.pending }))
+      .catch(err => setError(err.message))
+  }, [assetId])
+
+  const current = result?.assetId === assetId ? result : null
+
+  return (
+    <div className="mt-4 p-4 bg-slate-900/90 rounded-xl border border-slate-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-white">Similar assets</h4>
+        <Link href="/duplicates" className="text-xs text-violet-400 hover:text-violet-300 transition-colors">
+          All near-duplicates →
+        </Link>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : !current ? (
+        <p className="text-xs text-slate-500">Looking for similar assets...</p>
+      ) : current.assets.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          No near-duplicates found
+          {current.pending > 0 && `, ${current.pending} asset${current.pending !== 1 ? 's are' : ' is'} still being analysed`}
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {current.assets.map(({ asset, similarity }) => (
+              <div key={asset.id} className="flex-shrink-0 w-32">
+                <div className="relative aspect-[4/3] rounded-lg overflow-hidden bg-slate-800">
+                  {asset.thumbnailSmallUrl ? (
+                    <Image src={asset.thumbnailSmallUrl} alt={asset.name} fill className="object-cover" sizes="128px" />
+                  ) : VIDEO_FORMATS.includes(asset.format.toLowerCase()) ? (
+                    <video src={asset.url} className="w-full h-full object-cover" muted />
+                  ) : (
+                    <Image src={asset.url} alt={asset.name} fill className="object-cover" sizes="128px" />
+                  )}
+                  <span className="absolute top-1 right-1 px-1.5 py-0.5 bg-black/70 rounded text-[10px] font-medium text-white">
+                    {Math.round(similarity * 100)}%
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-white truncate" title={asset.name}>{asset.name}</p>
+                <p className="text-[10px] text-slate-500 truncate">{asset.oem} • {asset.screenType}</p>
+              </div>
+            ))}
+          </div>
+          {current.pending > 0 && (
+            <p className="mt-2 text-[10px] text-slate-500">
+              {current.pending} asset{current.pending !== 1 ? 's are' : ' is'} still being analysed
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
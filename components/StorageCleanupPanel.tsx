@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+
+interface StorageScan {
+  driver: string
+  scannedFiles: number
+  orphans: Array<{ url: string; size: number; modifiedAt: string }>
+  missing: Array<{ id: string; name: string; url: string }>
+}
+
+interface FixResult {
+  removedFiles: number
+  deletedAssets: number
+}
+
+// How many entries of each list to show before summarising the rest
+const PREVIEW_LIMIT = 10
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function StorageCleanupPanel() {
+  const [scan, setScan] = useState<StorageScan | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [fixing, setFixing] = useState<'orphans' | 'missing' | null>(null)
+  const [result, setResult] = useState<FixResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleScan = async () => {
+    setScanning(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const res = await fetch('/api/storage/scan')
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to scan storage')
+      }
+      setScan(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan storage')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const handleFix = async (kind: 'orphans' | 'missing') => {
+    const message = kind === 'orphans'
+      ? 'Remove every stored file that no asset uses? This can\'t be undone.'
+      : 'Delete every asset whose file is missing? They will be removed from flows and collections.'
+    if (!confirm(message)) return
+
+    setFixing(kind)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/storage/scan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [kind]: true }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to clean up storage')
+      }
+
+      setResult({ removedFiles: data.removedFiles, deletedAssets: data.deletedAssets })
+      setScan({
+        ...data,
+        orphans: kind === 'orphans' ? [] : data.orphans,
+        missing: kind === 'missing' ? [] : data.missing,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clean up storage')
+    } finally {
+      setFixing(null)
+    }
+  }
+
+  const orphanSize = scan?.orphans.reduce((sum, file) => sum + file.size, 0) || 0
+
+  return (
+    <div className="mt-6 bg-slate-800/50 rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700/50 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Storage Cleanup</h3>
+          <p className="text-sm text-slate-400">Find stored files no asset uses, and assets whose file is gone</p>
+        </div>
+        <button
+          onClick={handleScan}
+          disabled={scanning || fixing !== null}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-xl font-medium transition-all disabled:opacity-50"
+        >
+          {scanning ? 'Scanning...' : 'Scan Storage'}
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-500/20 text-red-300">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="p-3 rounded-lg text-sm bg-emerald-500/20 text-emerald-300">
+            {result.removedFiles > 0 && `Removed ${result.removedFiles} files. `}
+            {result.deletedAssets > 0 && `Deleted ${result.deletedAssets} assets. `}
+            {result.removedFiles === 0 && result.deletedAssets === 0 && 'Nothing needed fixing.'}
+          </div>
+        )}
+
+        {scan === null ? (
+          <p className="text-sm text-slate-500">Scanning lists every stored file, which can take a while for large libraries.</p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-400">
+              {scan.scannedFiles} files in {scan.driver} storage
+            </p>
+
+            <div className="px-4 py-3 bg-slate-900/50 border border-slate-700/50 rounded-xl">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-white">Unused files</p>
+                  <p className="text-xs text-slate-400">
+                    {scan.orphans.length === 0
+                      ? 'None found'
+                      : `${scan.orphans.length} files, ${formatSize(orphanSize)}`}
+                  </p>
+                </div>
+                {scan.orphans.length > 0 && (
+                  <button
+                    onClick={() => handleFix('orphans')}
+                    disabled={fixing !== null}
+                    className="px-4 py-2 text-sm rounded-lg font-medium bg-red-500/20 hover:bg-red-500/30 text-red-400 transition-all disabled:opacity-50"
+                  >
+                    {fixing === 'orphans' ? 'Removing...' : 'Remove Files'}
+                  </button>
+                )}
+              </div>
+              {scan.orphans.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                  {scan.orphans.slice(0, PREVIEW_LIMIT).map(file => (
+                    <li key={file.url} className="truncate">{file.url}</li>
+                  ))}
+                  {scan.orphans.length > PREVIEW_LIMIT && <li>and {scan.orphans.length - PREVIEW_LIMIT} more</li>}
+                </ul>
+              )}
+            </div>
+
+            <div className="px-4 py-3 bg-slate-900/50 border border-slate-700/50 rounded-xl">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-white">Assets with missing files</p>
+                  <p className="text-xs text-slate-400">
+                    {scan.missing.length === 0 ? 'None found' : `${scan.missing.length} assets`}
+                  </p>
+                </div>
+                {scan.missing.length > 0 && (
+                  <button
+                    onClick={() => handleFix('missing')}
+                    disabled={fixing !== null}
+                    className="px-4 py-2 text-sm rounded-lg font-medium bg-red-500/20 hover:bg-red-500/30 text-red-400 transition-all disabled:opacity-50"
+                  >
+                    {fixing === 'missing' ? 'Deleting...' : 'Delete Assets'}
+                  </button>
+                )}
+              </div>
+              {scan.missing.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                  {scan.missing.slice(0, PREVIEW_LIMIT).map(asset => (
+                    <li key={asset.id} className="truncate">{asset.name}</li>
+                  ))}
+                  {scan.missing.length > PREVIEW_LIMIT && <li>and {scan.missing.length - PREVIEW_LIMIT} more</li>}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { normalizeTagName } from '@/lib/tags'
+
+interface TagSuggestion {
+  id: string
+  name: string
+  assetCount: number
+}
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  placeholder?: string
+  className?: string
+}
+
+const SUGGESTION_DELAY = 200
+
+export default function TagInput({ value, onChange, placeholder = 'Add tags...', className = '' }: TagInputProps) {
+  const [input, setInput] = useState('')
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([])
+  const [isFocused, setIsFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Fetch suggestions while typing, debounced
+  useEffect(() => {
+    if (!isFocused) return
+
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/tags?q=${encodeURIComponent(input)}`)
+        if (res.ok) {
+          const data = await res.json()
+          setSuggestions(data.tags)
+          setHighlighted(-1)
+        }
+      } catch (err) {
+        console.error('Failed to fetch tag suggestions:', err)
+      }
+    }, SUGGESTION_DELAY)
+
+    return () => clearTimeout(timeout)
+  }, [input, isFocused])
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name)
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag])
+    }
+    setInput('')
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag))
+  }
+
+  const visibleSuggestions = suggestions.filter(s => !value.includes(s.name))
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      // A suggestion picked with the arrow keys wins over the typed text
+      addTag(visibleSuggestions[highlighted]?.name || input)
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1])
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted(h => Math.min(h + 1, visibleSuggestions.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted(h => Math.max(h - 1, -1))
+    } else if (e.key === 'Escape') {
+      inputRef.current?.blur()
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <div
+        className="flex flex-wrap items-center gap-1.5 px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg focus-within:ring-2 focus-within:ring-violet-500/50 cursor-text"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-sky-500/20 text-sky-300 border border-sky-500/30 rounded"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); removeTag(tag) }}
+              className="text-sky-400 hover:text-white"
+            >
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false)
+            if (input.trim()) addTag(input)
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[6rem] bg-transparent text-sm text-white placeholder-slate-400 focus:outline-none"
+        />
+      </div>
+
+      {/* Suggestions */}
+      {isFocused && visibleSuggestions.length > 0 && (
+        <div className="absolute z-20 left-0 right-0 mt-1 py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-xl max-h-48 overflow-y-auto">
+          {visibleSuggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.id}
+              type="button"
+              // Keep focus in the input so blur doesn't add the half-typed text
+              onMouseDown={(e) => { e.preventDefault(); addTag(suggestion.name) }}
+              className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-sm transition-colors ${
+                index === highlighted ? 'bg-violet-500/20 text-white' : 'text-slate-300 hover:bg-slate-700/50'
+              }`}
+            >
+              <span>#{suggestion.name}</span>
+              <span className="text-xs text-slate-500">{suggestion.assetCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
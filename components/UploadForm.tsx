@@ -4,32 +4,99 @@ import { useState, useCallback } from 'react'
 import { useDropzone } from 'react-dropzone'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
-import { OEM_OPTIONS, SCREEN_TYPE_OPTIONS, ASSET_TYPE_OPTIONS } from './SearchFilter'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+import TagInput from './TagInput'
+
+type UploadStatus = 'pending' | 'uploading' | 'uploaded' | 'duplicate' | 'failed'
+
+interface UploadItem {
+  key: string
+  file: File
+  preview: string
+  isVideo: boolean
+  name: string
+  oem: string
+  screenType: string
+  assetType: string
+  status: UploadStatus
+  progress: number // 0-100
+  url?: string
+  duplicateOf?: string // Name of the asset that already has this file
+  error?: string
+}
+
+interface UploadedFile {
+  url: string
+}
+
+type UploadResult = UploadedFile | { duplicate: { id: string; name: string } }
+
+interface SharedFields {
+  oem: string
+  screenType: string
+  assetType: string
+}
+
+const MAX_FILES = 100
+const UPLOAD_CONCURRENCY = 4
+
+// XHR instead of fetch so upload progress can be reported
+// Files already in the library resolve with the existing asset unless allowDuplicate is set
+function uploadFile(
+  file: File,
+  onProgress: (percent: number) => void,
+  allowDuplicate: boolean
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData()
+    formData.append('file', file)
+    if (allowDuplicate) formData.append('allowDuplicate', 'true')
+
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', '/api/upload')
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100))
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        const { url } = JSON.parse(xhr.responseText)
+        resolve({ url })
+      } else if (xhr.status === 409) {
+        resolve({ duplicate: JSON.parse(xhr.responseText).duplicate })
+      } else {
+        reject(new Error('Failed to upload file'))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error'))
+    xhr.send(formData)
+  })
+}
 
 export default function UploadForm() {
   const router = useRouter()
-  const [file, setFile] = useState<File | null>(null)
-  const [preview, setPreview] = useState<string | null>(null)
-  const [isVideo, setIsVideo] = useState(false)
-  const [name, setName] = useState('')
-  const [oem, setOem] = useState('')
-  const [screenType, setScreenType] = useState('')
-  const [assetType, setAssetType] = useState('')
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [shared, setShared] = useState<SharedFields>({ oem: '', screenType: '', assetType: '' })
   const [description, setDescription] = useState('')
+  const [tags, setTags] = useState<string[]>([])
   const [isUploading, setIsUploading] = useState(false)
+  const [showErrors, setShowErrors] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const { taxonomy } = useTaxonomy()
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const selectedFile = acceptedFiles[0]
-    if (selectedFile) {
-      setFile(selectedFile)
-      setPreview(URL.createObjectURL(selectedFile))
-      setIsVideo(selectedFile.type.startsWith('video/'))
-      if (!name) {
-        setName(selectedFile.name.replace(/\.[^/.]+$/, ''))
-      }
-    }
-  }, [name])
+    // New files start from the "apply to all" values
+    const added = acceptedFiles.map(file => ({
+      key: `${file.name}-${file.size}-${Math.random().toString(36).slice(2)}`,
+      file,
+      preview: URL.createObjectURL(file),
+      isVideo: file.type.startsWith('video/'),
+      name: file.name.replace(/\.[^/.]+$/, ''),
+      ...shared,
+      status: 'pending' as const,
+      progress: 0,
+    }))
+    setItems(prev => [...prev, ...added].slice(0, MAX_FILES))
+  }, [shared])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -37,14 +104,61 @@ export default function UploadForm() {
       'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
       'video/*': ['.mp4', '.webm', '.mov']
     },
-    maxFiles: 1,
-    multiple: false
+    maxFiles: MAX_FILES,
+    multiple: true
   })
 
+  const updateItem = (key: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item))
+  }
+
+  const removeItem = (key: string) => {
+    setItems(prev => {
+      const item = prev.find(i => i.key === key)
+      if (item) URL.revokeObjectURL(item.preview)
+      return prev.filter(i => i.key !== key)
+    })
+  }
+
+  const applyToAll = (field: keyof SharedFields, value: string) => {
+    setShared(prev => ({ ...prev, [field]: value }))
+    setItems(prev => prev.map(item => ({ ...item, [field]: value })))
+  }
+
+  // Resolves to the uploaded file, 'duplicate' when the library already has it,
+  // or null when the upload failed
+  const uploadItem = async (
+    item: UploadItem,
+    allowDuplicate = false
+  ): Promise<UploadedFile | 'duplicate' | null> => {
+    updateItem(item.key, { status: 'uploading', progress: 0, error: undefined })
+    try {
+      const result = await uploadFile(item.file, progress => updateItem(item.key, { progress }), allowDuplicate)
+      if ('duplicate' in result) {
+        updateItem(item.key, { status: 'duplicate', duplicateOf: result.duplicate.name })
+        return 'duplicate'
+      }
+      updateItem(item.key, { status: 'uploaded', progress: 100, ...result })
+      return result
+    } catch (err) {
+      updateItem(item.key, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Upload failed',
+      })
+      return null
+    }
+  }
+
+  const isComplete = (item: UploadItem) =>
+    Boolean(item.name.trim() && item.oem && item.screenType && item.assetType)
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!file || !name || !oem || !screenType || !assetType) {
-      setError('Please fill in all required fields')
+    if (items.length === 0) return
+
+    if (!items.every(isComplete)) {
+      setShowErrors(true)
+      setError('Please fill in the name, OEM, screen type and asset type for every file')
       return
     }
 
@@ -52,37 +166,56 @@ export default function UploadForm() {
     setError(null)
 
     try {
-      // Step 1: Upload file to local storage
-      const formData = new FormData()
-      formData.append('file', file)
-
-      const uploadRes = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      // Step 1: Upload the files not uploaded yet, a few at a time
+      // Files found to be duplicates wait for the user to skip them or upload anyway
+      const uploaded = new Map(items.filter(item => item.url).map(item => [
+        item.key,
+        { url: item.url as string },
+      ]))
+      let duplicates = items.filter(item => item.status === 'duplicate').length
+      const queue = items.filter(item => !item.url && item.status !== 'duplicate')
+      await Promise.all(
+        Array.from({ length: Math.min(UPLOAD_CONCURRENCY, queue.length) }, async () => {
+          for (let item = queue.shift(); item; item = queue.shift()) {
+            const result = await uploadItem(item)
+            if (result === 'duplicate') duplicates++
+            else if (result) uploaded.set(item.key, result)
+          }
+        })
+      )
 
-      if (!uploadRes.ok) throw new Error('Failed to upload file')
-      const { url } = await uploadRes.json()
+      const failed = items.length - uploaded.size - duplicates
+      if (failed > 0) {
+        throw new Error(`${failed} file${failed !== 1 ? 's' : ''} failed to upload. Retry or remove ${failed !== 1 ? 'them' : 'it'} to continue.`)
+      }
+      if (duplicates > 0) {
+        throw new Error(`${duplicates} file${duplicates !== 1 ? 's are' : ' is'} already in the library. Skip or upload ${duplicates !== 1 ? 'them' : 'it'} anyway to continue.`)
+      }
 
-      // Step 2: Save asset metadata
-      const format = file.name.split('.').pop()?.toLowerCase() || 'unknown'
-      const assetRes = await fetch('/api/assets', {
+      // Step 2: Save all asset metadata in one request
+      const assetRes = await fetch('/api/assets/batch', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          name,
-          filename: file.name,
-          url,
-          oem,
-          screenType,
-          assetType,
-          description: description || null,
-          format,
-          size: file.size,
+          assets: items.map(item => ({
+            name: item.name.trim(),
+            filename: item.file.name,
+            url: uploaded.get(item.key)?.url,
+            oem: item.oem,
+            screenType: item.screenType,
+            assetType: item.assetType,
+            description: description || null,
+            tags,
+            format: item.file.name.split('.').pop()?.toLowerCase() || 'unknown',
+            size: item.file.size,
+          })),
         }),
       })
 
-      if (!assetRes.ok) throw new Error('Failed to save asset metadata')
+      if (!assetRes.ok) {
+        const data = await assetRes.json()
+        throw new Error(data.error || 'Failed to save asset metadata')
+      }
 
       // Success - redirect to home
       router.push('/')
@@ -95,178 +228,222 @@ export default function UploadForm() {
     }
   }
 
-  const clearFile = () => {
-    setFile(null)
-    setPreview(null)
-    setIsVideo(false)
-  }
+  const selectClass = (invalid: boolean) =>
+    `w-full px-2 py-1.5 bg-slate-900/50 border rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 cursor-pointer ${
+      invalid ? 'border-red-500/60' : 'border-slate-600/50'
+    }`
 
-  const filteredOemOptions = OEM_OPTIONS.filter(o => o !== 'All OEMs')
-  const filteredScreenTypeOptions = SCREEN_TYPE_OPTIONS.filter(o => o !== 'All Types')
-  const filteredAssetTypeOptions = ASSET_TYPE_OPTIONS.filter(o => o !== 'All Assets')
+  const sharedSelects: Array<{ field: keyof SharedFields; label: string; options: string[] }> = [
+    { field: 'oem', label: 'OEM', options: taxonomy.oem },
+    { field: 'screenType', label: 'Screen Type', options: taxonomy.screenType },
+    { field: 'assetType', label: 'Asset Type', options: taxonomy.assetType },
+  ]
 
   return (
-    <form onSubmit={handleSubmit} className="max-w-2xl mx-auto space-y-8">
+    <form onSubmit={handleSubmit} className="max-w-5xl mx-auto space-y-8">
       {/* Dropzone */}
       <div
         {...getRootProps()}
         className={`relative border-2 border-dashed rounded-2xl p-8 text-center cursor-pointer transition-all duration-300 ${
           isDragActive
             ? 'border-violet-500 bg-violet-500/10'
-            : file
+            : items.length > 0
             ? 'border-green-500/50 bg-green-500/5'
             : 'border-slate-600 hover:border-violet-500/50 hover:bg-slate-800/50'
         }`}
       >
         <input {...getInputProps()} />
-        
-        {preview ? (
-          <div className="space-y-4">
-            <div className="relative w-full max-w-md mx-auto aspect-video rounded-xl overflow-hidden bg-slate-900">
-              {isVideo ? (
-                <video
-                  src={preview}
-                  className="w-full h-full object-contain"
-                  controls
-                  muted
-                />
-              ) : (
-                <Image
-                  src={preview}
-                  alt="Preview"
-                  fill
-                  className="object-contain"
-                />
-              )}
-            </div>
-            <div className="flex items-center justify-center gap-2 text-green-400">
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-              <span className="font-medium">{file?.name}</span>
-            </div>
-            <button
-              type="button"
-              onClick={(e) => { e.stopPropagation(); clearFile() }}
-              className="text-sm text-slate-400 hover:text-white transition-colors"
-            >
-              Click to replace
-            </button>
-          </div>
-        ) : (
-          <div className="space-y-4">
-            <div className="w-16 h-16 mx-auto rounded-full bg-slate-800 flex items-center justify-center">
-              <svg className="w-8 h-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-              </svg>
-            </div>
-            <div>
-              <p className="text-lg font-medium text-white">
-                {isDragActive ? 'Drop the file here' : 'Drag & drop your file here'}
-              </p>
-              <p className="text-sm text-slate-400 mt-1">
-                or click to browse (PNG, JPG, GIF, WebP, MP4, WebM, MOV)
-              </p>
-            </div>
+        <div className="space-y-4">
+          <div className="w-16 h-16 mx-auto rounded-full bg-slate-800 flex items-center justify-center">
+            <svg className="w-8 h-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
           </div>
-        )}
-      </div>
-
-      {/* Form Fields */}
-      <div className="grid gap-6">
-        {/* Name */}
-        <div>
-          <label htmlFor="name" className="block text-sm font-medium text-slate-300 mb-2">
-            Asset Name <span className="text-red-400">*</span>
-          </label>
-          <input
-            id="name"
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="e.g., Xiaomi Lockscreen Q4 Campaign"
-            className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all"
-            required
-          />
-        </div>
-
-        {/* OEM, Screen Type, and Asset Type */}
-        <div className="grid sm:grid-cols-3 gap-4">
           <div>
-            <label htmlFor="oem" className="block text-sm font-medium text-slate-300 mb-2">
-              OEM <span className="text-red-400">*</span>
-            </label>
-            <select
-              id="oem"
-              value={oem}
-              onChange={(e) => setOem(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-              required
-            >
-              <option value="" className="bg-slate-900">Select OEM...</option>
-              {filteredOemOptions.map(option => (
-                <option key={option} value={option} className="bg-slate-900">
-                  {option}
-                </option>
-              ))}
-            </select>
+            <p className="text-lg font-medium text-white">
+              {isDragActive
+                ? 'Drop the files here'
+                : items.length > 0
+                ? `${items.length} file${items.length !== 1 ? 's' : ''} selected - drop more to add them`
+                : 'Drag & drop your files here'}
+            </p>
+            <p className="text-sm text-slate-400 mt-1">
+              or click to browse (PNG, JPG, GIF, WebP, MP4, WebM, MOV), up to {MAX_FILES} at once
+            </p>
           </div>
+        </div>
+      </div>
 
-          <div>
-            <label htmlFor="screenType" className="block text-sm font-medium text-slate-300 mb-2">
-              Screen Type <span className="text-red-400">*</span>
-            </label>
-            <select
-              id="screenType"
-              value={screenType}
-              onChange={(e) => setScreenType(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-              required
-            >
-              <option value="" className="bg-slate-900">Select type...</option>
-              {filteredScreenTypeOptions.map(option => (
-                <option key={option} value={option} className="bg-slate-900">
-                  {option}
-                </option>
+      {items.length > 0 && (
+        <>
+          {/* Apply to all */}
+          <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700/50">
+            <p className="text-sm font-medium text-slate-300 mb-3">Apply to all files</p>
+            <div className="grid sm:grid-cols-3 gap-4">
+              {sharedSelects.map(({ field, label, options }) => (
+                <select
+                  key={field}
+                  value={shared[field]}
+                  onChange={(e) => applyToAll(field, e.target.value)}
+                  className={selectClass(false)}
+                >
+                  <option value="" className="bg-slate-900">{label}...</option>
+                  {options.map(option => (
+                    <option key={option} value={option} className="bg-slate-900">
+                      {option}
+                    </option>
+                  ))}
+                </select>
               ))}
-            </select>
+            </div>
           </div>
 
-          <div>
-            <label htmlFor="assetType" className="block text-sm font-medium text-slate-300 mb-2">
-              Asset Type <span className="text-red-400">*</span>
-            </label>
-            <select
-              id="assetType"
-              value={assetType}
-              onChange={(e) => setAssetType(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all cursor-pointer"
-              required
-            >
-              <option value="" className="bg-slate-900">Select asset type...</option>
-              {filteredAssetTypeOptions.map(option => (
-                <option key={option} value={option} className="bg-slate-900">
-                  {option}
-                </option>
-              ))}
-            </select>
+          {/* Per-file metadata */}
+          <div className="overflow-x-auto rounded-xl border border-slate-700/50">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-800/80 text-left text-slate-400">
+                <tr>
+                  <th className="px-3 py-2 font-medium w-20">File</th>
+                  <th className="px-3 py-2 font-medium">Name</th>
+                  <th className="px-3 py-2 font-medium">OEM</th>
+                  <th className="px-3 py-2 font-medium">Screen Type</th>
+                  <th className="px-3 py-2 font-medium">Asset Type</th>
+                  <th className="px-3 py-2 font-medium w-32">Status</th>
+                  <th className="px-3 py-2 w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {items.map(item => (
+                  <tr key={item.key} className="bg-slate-800/30">
+                    <td className="px-3 py-2">
+                      <div className="relative w-16 aspect-video rounded overflow-hidden bg-slate-900">
+                        {item.isVideo ? (
+                          <video src={item.preview} className="w-full h-full object-cover" muted />
+                        ) : (
+                          <Image src={item.preview} alt={item.name} fill className="object-cover" />
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={item.name}
+                        onChange={(e) => updateItem(item.key, { name: e.target.value })}
+                        className={`w-full min-w-40 px-2 py-1.5 bg-slate-900/50 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 ${
+                          showErrors && !item.name.trim() ? 'border-red-500/60' : 'border-slate-600/50'
+                        }`}
+                      />
+                    </td>
+                    {sharedSelects.map(({ field, label, options }) => (
+                      <td key={field} className="px-3 py-2">
+                        <select
+                          value={item[field]}
+                          onChange={(e) => updateItem(item.key, { [field]: e.target.value })}
+                          className={selectClass(showErrors && !item[field])}
+                        >
+                          <option value="" className="bg-slate-900">{label}...</option>
+                          {options.map(option => (
+                            <option key={option} value={option} className="bg-slate-900">
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    ))}
+                    <td className="px-3 py-2">
+                      {item.status === 'failed' ? (
+                        <button
+                          type="button"
+                          onClick={() => uploadItem(item)}
+                          className="text-red-400 hover:text-red-300 text-xs"
+                          title={item.error}
+                        >
+                          Failed - Retry
+                        </button>
+                      ) : item.status === 'duplicate' ? (
+                        <div className="text-xs">
+                          <p className="text-amber-400 truncate" title={`Same file as "${item.duplicateOf}"`}>
+                            In library as {item.duplicateOf}
+                          </p>
+                          <div className="flex gap-2 mt-0.5">
+                            <button
+                              type="button"
+                              onClick={() => uploadItem(item, true)}
+                              className="text-slate-300 hover:text-white"
+                            >
+                              Upload anyway
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => removeItem(item.key)}
+                              className="text-slate-400 hover:text-red-400"
+                            >
+                              Skip
+                            </button>
+                          </div>
+                        </div>
+                      ) : item.status === 'uploaded' ? (
+                        <span className="text-green-400 text-xs">Uploaded</span>
+                      ) : item.status === 'uploading' ? (
+                        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-violet-500 transition-all"
+                            style={{ width: `${item.progress}%` }}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-slate-500 text-xs">Ready</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => removeItem(item.key)}
+                        disabled={item.status === 'uploading'}
+                        className="p-1 text-slate-400 hover:text-red-400 transition-colors disabled:opacity-30"
+                        title="Remove file"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-        </div>
+        </>
+      )}
 
+      {/* Shared Fields */}
+      <div className="grid gap-6">
         {/* Description */}
         <div>
           <label htmlFor="description" className="block text-sm font-medium text-slate-300 mb-2">
-            Description <span className="text-slate-500">(optional)</span>
+            Description <span className="text-slate-500">(optional, applies to every file)</span>
           </label>
           <textarea
             id="description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder="Add any notes about this asset..."
+            placeholder="Add any notes about these assets..."
             rows={3}
             className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all resize-none"
           />
         </div>
+
+        {/* Tags */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Tags <span className="text-slate-500">(optional, applies to every file)</span>
+          </label>
+          <TagInput
+            value={tags}
+            onChange={setTags}
+            placeholder="Campaign, partner, locale, feature..."
+          />
+        </div>
       </div>
 
       {/* Error Message */}
@@ -282,7 +459,7 @@ export default function UploadForm() {
       {/* Submit Button */}
       <button
         type="submit"
-        disabled={isUploading || !file}
+        disabled={isUploading || items.length === 0}
         className="w-full py-4 px-6 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-semibold rounded-xl shadow-lg shadow-violet-500/25 hover:shadow-violet-500/40 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-violet-500/25"
       >
         {isUploading ? (
@@ -293,6 +470,8 @@ export default function UploadForm() {
             </svg>
             Uploading...
           </span>
+        ) : items.length > 1 ? (
+          `Upload ${items.length} Assets`
         ) : (
           'Upload Asset'
         )}
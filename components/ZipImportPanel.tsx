@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { TAXONOMY_KINDS, TAXONOMY_LABELS, type TaxonomyKind } from '@/lib/taxonomy'
+import { useTaxonomy } from '@/lib/use-taxonomy'
+
+type FolderRole = TaxonomyKind | 'ignore'
+
+interface ImportResult {
+  created: number
+  skipped: Array<{ path: string; reason: string }>
+  failed: Array<{ path: string; reason: string }>
+}
+
+const FOLDER_LEVELS = 3
+
+export default function ZipImportPanel() {
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  // Roles for folder levels 1-3; trailing "ignore" levels are dropped when sent
+  const [folders, setFolders] = useState<FolderRole[]>(['oem', 'screenType', 'ignore'])
+  const [defaults, setDefaults] = useState<Partial<Record<TaxonomyKind, string>>>({ assetType: 'Mockup' })
+  const [importing, setImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { taxonomy } = useTaxonomy()
+
+  const example = folders
+    .filter(role => role !== 'ignore')
+    .map(role => TAXONOMY_LABELS[role as TaxonomyKind].singular.replace(' ', ''))
+    .concat('file.png')
+    .join('/')
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setImporting(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const lastUsed = folders.map(role => role !== 'ignore').lastIndexOf(true)
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('mapping', JSON.stringify({
+        folders: folders.slice(0, lastUsed + 1),
+        defaults,
+      }))
+
+      const res = await fetch('/api/assets/import', { method: 'POST', body: formData })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to import ZIP archive')
+      }
+
+      setResult(data)
+      setFile(null)
+      if (data.created > 0) router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import ZIP archive')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 bg-slate-800/50 rounded-2xl border border-slate-700/50 space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Import a ZIP</h3>
+        <p className="text-sm text-slate-400 mt-1">
+          Folders in the archive set each asset&apos;s fields, e.g. <code className="text-violet-300">{example}</code>.
+          Files already in the library are skipped.
+        </p>
+      </div>
+
+      {/* Folder mapping */}
+      <div className="grid sm:grid-cols-3 gap-4">
+        {Array.from({ length: FOLDER_LEVELS }, (_, level) => (
+          <div key={level}>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Folder level {level + 1}</label>
+            <select
+              value={folders[level]}
+              onChange={(e) => setFolders(prev => prev.map((role, i) => i === level ? e.target.value as FolderRole : role))}
+              className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 cursor-pointer"
+            >
+              {TAXONOMY_KINDS.map(kind => (
+                <option key={kind} value={kind} className="bg-slate-900">{TAXONOMY_LABELS[kind].singular}</option>
+              ))}
+              <option value="ignore" className="bg-slate-900">Ignore</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {/* Fallbacks for fields no folder provides */}
+      <div className="grid sm:grid-cols-3 gap-4">
+        {TAXONOMY_KINDS.map(kind => (
+          <div key={kind}>
+            <label className="block text-xs font-medium text-slate-400 mb-1">
+              Default {TAXONOMY_LABELS[kind].singular}
+            </label>
+            <select
+              value={defaults[kind] || ''}
+              onChange={(e) => setDefaults(prev => ({ ...prev, [kind]: e.target.value || undefined }))}
+              className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 cursor-pointer"
+            >
+              <option value="" className="bg-slate-900">None</option>
+              {taxonomy[kind].map(option => (
+                <option key={option} value={option} className="bg-slate-900">{option}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex-1 flex items-center gap-3 px-4 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg cursor-pointer hover:border-violet-500/50 transition-colors">
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+          <span className="text-sm text-slate-300 truncate">{file ? file.name : 'Choose a ZIP file...'}</span>
+        </label>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={!file || importing}
+          className="px-5 py-2 bg-violet-600 hover:bg-violet-500 text-white text-sm rounded-lg font-medium transition-all disabled:opacity-50"
+        >
+          {importing ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3 text-sm">
+          <p className="text-green-400">
+            Created {result.created} asset{result.created !== 1 ? 's' : ''}
+            {result.skipped.length > 0 && <span className="text-slate-400">, skipped {result.skipped.length}</span>}
+            {result.failed.length > 0 && <span className="text-red-400">, {result.failed.length} failed</span>}
+          </p>
+          {[
+            { label: 'Failed', entries: result.failed, className: 'text-red-300' },
+            { label: 'Skipped', entries: result.skipped, className: 'text-slate-400' },
+          ].filter(group => group.entries.length > 0).map(group => (
+            <details key={group.label} className="bg-slate-900/50 rounded-lg px-3 py-2">
+              <summary className="cursor-pointer text-slate-300">{group.label} ({group.entries.length})</summary>
+              <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                {group.entries.map(entry => (
+                  <li key={entry.path} className={`text-xs ${group.className}`}>
+                    <span className="font-mono">{entry.path}</span> - {entry.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
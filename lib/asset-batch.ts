@@ -0,0 +1,173 @@
+/**
+ * Bulk changes to a selection of assets, used by the batch asset routes
+ */
+
+import type { Prisma } from '@prisma/client'
+import { connectTags } from './tags'
+import { recordFlowVersion, recordBaselineVersion } from './flow-versions'
+
+export const MAX_SELECTION_SIZE = 500
+
+// Bulk changes write once per asset or flow, so a full selection can take longer than
+// the default five seconds an interactive transaction is allowed
+export const BATCH_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 60_000 }
+
+export interface AssetBatchChanges {
+  oem?: string
+  screenType?: string
+  assetType?: string
+  addTags: string[]
+  removeTags: string[]
+}
+
+export interface AssetDeleteImpact {
+  flows: Array<{
+    id: string
+    name: string
+    affectedFrames: number // Frames showing one of the assets
+    totalFrames: number
+  }>
+  collections: Array<{ id: string; name: string; affectedItems: number }>
+}
+
+/**
+ * Read a list of asset ids from a request body, or null if it isn't one
+ */
+export function parseAssetIds(input: unknown): string[] | null {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_SELECTION_SIZE) return null
+  if (!input.every(id => typeof id === 'string' && id)) return null
+  return [...new Set(input as string[])]
+}
+
+/**
+ * Apply the same field and tag changes to every asset in the list
+ * Fields left undefined are not touched
+ */
+export async function updateAssets(
+  tx: Prisma.TransactionClient,
+  ids: string[],
+  changes: AssetBatchChanges
+): Promise<number> {
+  // Assets deleted since they were selected are skipped rather than failing the batch
+  const existing = (await tx.asset.findMany({
+    where: { id: { in: ids } },
+    select: { id: true },
+  })).map(asset => asset.id)
+
+  const { count } = await tx.asset.updateMany({
+    where: { id: { in: existing } },
+    data: {
+      oem: changes.oem,
+      screenType: changes.screenType,
+      assetType: changes.assetType,
+    },
+  })
+
+  // Tag links are per asset, so these can't go through updateMany
+  if (changes.addTags.length > 0 || changes.removeTags.length > 0) {
+    for (const id of existing) {
+      await tx.asset.update({
+        where: { id },
+        data: {
+          tags: {
+            disconnect: changes.removeTags.map(name => ({ name })),
+            connectOrCreate: connectTags(changes.addTags),
+          },
+        },
+      })
+    }
+  }
+
+  return count
+}
+
+/**
+ * Flows and collections that would lose frames or items if the assets were deleted
+ */
+export async function getDeleteImpact(
+  tx: Prisma.TransactionClient,
+  ids: string[]
+): Promise<AssetDeleteImpact> {
+  const [flows, collections] = await Promise.all([
+    tx.flow.findMany({
+      where: { frames: { some: { assetId: { in: ids } } } },
+      select: {
+        id: true,
+        name: true,
+        frames: { select: { assetId: true } },
+      },
+      orderBy: { name: 'asc' },
+    }),
+    tx.collection.findMany({
+      where: { items: { some: { assetId: { in: ids } } } },
+      select: {
+        id: true,
+        name: true,
+        _count: { select: { items: { where: { assetId: { in: ids } } } } },
+      },
+      orderBy: { name: 'asc' },
+    }),
+  ])
+
+  const selected = new Set(ids)
+
+  return {
+    flows: flows.map(flow => ({
+      id: flow.id,
+      name: flow.name,
+      affectedFrames: flow.frames.filter(frame => selected.has(frame.assetId)).length,
+      totalFrames: flow.frames.length,
+    })),
+    collections: collections.map(collection => ({
+      id: collection.id,
+      name: collection.name,
+      affectedItems: collection._count.items,
+    })),
+  }
+}
+
+/**
+ * Delete the assets, recording a new version of every flow that loses frames
+ */
+export async function deleteAssets(tx: Prisma.TransactionClient, ids: string[]): Promise<number> {
+  const flows = await tx.flow.findMany({
+    where: { frames: { some: { assetId: { in: ids } } } },
+    select: { id: true },
+  })
+  for (const flow of flows) {
+    await recordBaselineVersion(tx, flow.id)
+  }
+
+  const { count } = await tx.asset.deleteMany({ where: { id: { in: ids } } })
+
+  for (const flow of flows) {
+    await recordFlowVersion(tx, flow.id, 'Frames removed with deleted assets')
+  }
+
+  return count
+}
+
+/**
+ * Append the assets to the end of a flow as new frames, in the given order
+ */
+export async function appendAssetsToFlow(
+  tx: Prisma.TransactionClient,
+  flowId: string,
+  ids: string[]
+): Promise<number> {
+  await recordBaselineVersion(tx, flowId)
+
+  const last = await tx.flowFrame.findFirst({
+    where: { flowId },
+    orderBy: { order: 'desc' },
+    select: { order: true },
+  })
+  const start = (last?.order ?? -1) + 1
+
+  const { count } = await tx.flowFrame.createMany({
+    data: ids.map((assetId, index) => ({ flowId, assetId, order: start + index })),
+  })
+
+  await recordFlowVersion(tx, flowId, `Added ${count} asset${count !== 1 ? 's' : ''}`)
+  return count
+}
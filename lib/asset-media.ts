@@ -0,0 +1,181 @@
+/**
+ * Preview media generated from each asset's file
+ * Grids and strips show small WebP thumbnails instead of the original, which can be
+ * a 2x Figma export or a whole video, and videos get a poster frame. The same pass
+ * takes the perceptual hash for near-duplicate detection, so each file is decoded
+ * once. It runs in the background after assets are created or their file changes
+ */
+
+import sharp from 'sharp'
+import { mkdtemp, writeFile, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { Asset, Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { readUpload, saveUpload, deleteUpload } from './uploads'
+import { extractPosterFrame } from './video'
+import { differenceHash } from './similarity'
+
+// Widths of the two thumbnail sizes, the small one for strips and small previews
+const THUMBNAIL_WIDTH = 800
+const SMALL_THUMBNAIL_WIDTH = 320
+const THUMBNAIL_QUALITY = 80
+const POSTER_QUALITY = 85
+// Assets processed per database round trip by the background processor
+const PROCESS_BATCH_SIZE = 20
+
+const VIDEO_FORMATS = new Set(['mp4', 'webm', 'mov', 'avi', 'mkv'])
+
+export interface AssetMedia {
+  thumbnailUrl: string | null
+  thumbnailSmallUrl: string | null
+  posterUrl: string | null
+  perceptualHash: string | null
+}
+
+const NO_MEDIA: AssetMedia = {
+  thumbnailUrl: null,
+  thumbnailSmallUrl: null,
+  posterUrl: null,
+  perceptualHash: null,
+}
+
+// Clears an asset's generated media, so it is generated again for its new file
+export const RESET_ASSET_MEDIA = {
+  ...NO_MEDIA,
+  mediaProcessedAt: null,
+} satisfies Prisma.AssetUpdateInput
+
+/**
+ * Stored files generated from the asset's file, which go when it changes or is deleted
+ */
+export function assetMediaUrls(
+  asset: Partial<Pick<Asset, 'thumbnailUrl' | 'thumbnailSmallUrl' | 'posterUrl'>>
+): string[] {
+  return [asset.thumbnailUrl, asset.thumbnailSmallUrl, asset.posterUrl]
+    .filter((url): url is string => !!url)
+}
+
+/**
+ * The still that previews are made from: the image itself, or a poster frame for videos
+ */
+async function readStill(asset: { url: string; format: string }): Promise<{ still: Buffer; isVideo: boolean }> {
+  const format = asset.format.toLowerCase()
+
+  if (!VIDEO_FORMATS.has(format)) {
+    return { still: await readUpload(asset.url), isVideo: false }
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'poster-'))
+  try {
+    const videoPath = path.join(workDir, `video.${format}`)
+    const posterPath = path.join(workDir, 'poster.png')
+    await writeFile(videoPath, await readUpload(asset.url))
+    await extractPosterFrame(videoPath, posterPath)
+    return { still: await readFile(posterPath), isVideo: true }
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+function createThumbnail(still: Buffer, width: number): Promise<Buffer> {
+  return sharp(still)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: THUMBNAIL_QUALITY })
+    .toBuffer()
+}
+
+/**
+ * Generate and store an asset's thumbnails, its poster for videos, and its perceptual hash
+ * Throws for files that can't be decoded, leaving nothing stored
+ */
+export async function generateAssetMedia(asset: { url: string; format: string }): Promise<AssetMedia> {
+  const { still, isVideo } = await readStill(asset)
+
+  const stored: string[] = []
+  const store = async (data: Buffer, extension: string) => {
+    const { url } = await saveUpload(data, extension)
+    stored.push(url)
+    return url
+  }
+
+  try {
+    const posterUrl = isVideo
+      ? await store(await sharp(still).jpeg({ quality: POSTER_QUALITY }).toBuffer(), 'jpg')
+      : null
+
+    return {
+      thumbnailUrl: await store(await createThumbnail(still, THUMBNAIL_WIDTH), 'webp'),
+      thumbnailSmallUrl: await store(await createThumbnail(still, SMALL_THUMBNAIL_WIDTH), 'webp'),
+      posterUrl,
+      perceptualHash: await differenceHash(still),
+    }
+  } catch (error) {
+    await Promise.all(stored.map(url => deleteUpload(url).catch(() => {})))
+    throw error
+  }
+}
+
+/**
+ * Number of assets whose media hasn't been generated yet
+ */
+export function countUnprocessedAssets(): Promise<number> {
+  return prisma.asset.count({ where: { mediaProcessedAt: null } })
+}
+
+const globalForProcessor = globalThis as unknown as {
+  mediaProcessorRunning: boolean | undefined
+}
+
+async function processPendingBatch(): Promise<number> {
+  const pending = await prisma.asset.findMany({
+    where: { mediaProcessedAt: null },
+    select: { id: true, url: true, format: true, updatedAt: true },
+    orderBy: { createdAt: 'asc' },
+    take: PROCESS_BATCH_SIZE,
+  })
+
+  for (const asset of pending) {
+    const media = await generateAssetMedia(asset).catch(error => {
+      console.error(`[asset-media] Could not process asset ${asset.id}:`, error)
+      return null
+    })
+
+    // Skipped if the file changed meanwhile, the next batch picks the new one up.
+    // Generating previews isn't an edit, so updatedAt is kept as it was
+    const { count } = await prisma.asset.updateMany({
+      where: { id: asset.id, url: asset.url },
+      data: { ...(media ?? NO_MEDIA), mediaProcessedAt: new Date(), updatedAt: asset.updatedAt },
+    })
+    if (count === 0 && media) {
+      await Promise.all(assetMediaUrls(media).map(url => deleteUpload(url).catch(() => {})))
+    }
+  }
+
+  return pending.length
+}
+
+/**
+ * Start generating media for unprocessed assets in the background, if not already
+ * running in this process. Call after creating assets or replacing their file
+ */
+export function startMediaProcessor() {
+  if (globalForProcessor.mediaProcessorRunning) return
+  globalForProcessor.mediaProcessorRunning = true
+
+  const run = async () => {
+    try {
+      let processed = await processPendingBatch()
+      while (processed > 0) {
+        processed = await processPendingBatch()
+      }
+    } catch (error) {
+      console.error('[asset-media] Processor error:', error)
+    } finally {
+      globalForProcessor.mediaProcessorRunning = false
+    }
+  }
+
+  void run()
+}
@@ -0,0 +1,154 @@
+/**
+ * Filtering, sorting and facet counts for the paged asset list
+ * Shared by GET /api/assets and the library filters, so it only imports Prisma types
+ */
+
+import type { Prisma } from '@prisma/client'
+import { tagFilter, parseTagList, type TagMode } from './tags'
+
+export const ASSET_PAGE_SIZE = 24
+export const MAX_ASSET_PAGE_SIZE = 200
+
+// Sortable fields and their natural direction
+export const ASSET_SORTS = {
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  name: 'asc',
+  size: 'desc',
+  format: 'asc',
+} as const
+
+export type AssetSortField = keyof typeof ASSET_SORTS
+
+// "relevance" orders by search rank and only applies with a search query
+export type AssetSort = AssetSortField | 'relevance'
+
+export const FACET_FIELDS = ['oem', 'screenType', 'assetType', 'format'] as const
+
+export type FacetField = (typeof FACET_FIELDS)[number]
+
+export type AssetFacets = Record<FacetField, Array<{ value: string; count: number }>>
+
+// Library filters as chosen in SearchFilter and kept in the page URL
+export interface AssetFilters {
+  search: string
+  oem: string
+  screenType: string
+  assetType: string
+  format: string
+  tags: string[]
+  tagMode: TagMode
+  sort: AssetSort | '' // Empty for the default: best match when searching, newest otherwise
+}
+
+export const DEFAULT_ASSET_FILTERS: AssetFilters = {
+  search: '',
+  oem: '',
+  screenType: '',
+  assetType: '',
+  format: '',
+  tags: [],
+  tagMode: 'all',
+  sort: '',
+}
+
+/**
+ * Query string for the filters, shared by the library URL and the assets API
+ * Defaults are left out so an unfiltered view has a bare URL
+ */
+export function assetFiltersToParams(filters: AssetFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search) params.set('search', filters.search)
+  if (filters.oem) params.set('oem', filters.oem)
+  if (filters.screenType) params.set('screenType', filters.screenType)
+  if (filters.assetType) params.set('assetType', filters.assetType)
+  if (filters.format) params.set('format', filters.format)
+  if (filters.tags.length > 0) {
+    params.set('tags', filters.tags.join(','))
+    if (filters.tagMode !== 'all') params.set('tagMode', filters.tagMode)
+  }
+  if (filters.sort) params.set('sort', filters.sort)
+  return params
+}
+
+export function assetFiltersFromParams(params: { get(name: string): string | null }): AssetFilters {
+  const sort = params.get('sort')
+  return {
+    search: params.get('search') || '',
+    oem: params.get('oem') || '',
+    screenType: params.get('screenType') || '',
+    assetType: params.get('assetType') || '',
+    format: params.get('format') || '',
+    tags: parseTagList(params.get('tags')),
+    tagMode: params.get('tagMode') === 'any' ? 'any' : 'all',
+    sort: isAssetSort(sort) ? sort : '',
+  }
+}
+
+export interface AssetListFilters {
+  ids: string[] | null // Restrict to these assets, e.g. search matches
+  oem: string
+  screenType: string
+  assetType: string
+  format: string
+  tags: string[]
+  tagMode: TagMode
+}
+
+export function isAssetSort(value: unknown): value is AssetSort {
+  return value === 'relevance' || (typeof value === 'string' && Object.hasOwn(ASSET_SORTS, value))
+}
+
+/**
+ * Where clause for the filters, optionally leaving out one facet's own filter
+ */
+export function assetWhere(filters: AssetListFilters, exclude?: FacetField): Prisma.AssetWhereInput {
+  const facetFilters = FACET_FIELDS
+    .filter(field => field !== exclude && filters[field])
+    .map(field => ({ [field]: filters[field] }))
+
+  return {
+    AND: [
+      filters.ids ? { id: { in: filters.ids } } : {},
+      ...facetFilters,
+      tagFilter(filters.tags, filters.tagMode),
+    ],
+  }
+}
+
+/**
+ * Order by the sort field, with id as a tiebreaker so cursors are stable
+ */
+export function assetOrderBy(
+  sort: AssetSortField,
+  order?: Prisma.SortOrder
+): Prisma.AssetOrderByWithRelationInput[] {
+  const direction = order || ASSET_SORTS[sort]
+  return [{ [sort]: direction }, { id: direction }]
+}
+
+/**
+ * Count assets per value of each facet field, most common first
+ * Each facet ignores its own filter, so choosing an OEM still shows the
+ * counts for the other OEMs
+ */
+export async function getAssetFacets(
+  tx: Prisma.TransactionClient,
+  filters: AssetListFilters
+): Promise<AssetFacets> {
+  const counts = await Promise.all(
+    FACET_FIELDS.map(async field => {
+      const groups = await tx.asset.groupBy({
+        by: [field],
+        where: assetWhere(filters, field),
+        _count: { _all: true },
+      })
+
+      return groups
+        .map(group => ({ value: group[field], count: group._count._all }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    })
+  )
+
+  return Object.fromEntries(FACET_FIELDS.map((field, i) => [field, counts[i]])) as AssetFacets
+}
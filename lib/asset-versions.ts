@@ -0,0 +1,83 @@
+/**
+ * Asset file history
+ * Replacing an asset's file keeps its id, so flows keep pointing at it, and
+ * archives the previous file as a version that can be reverted to
+ */
+
+import type { Asset, Prisma } from '@prisma/client'
+import { RESET_ASSET_MEDIA } from './asset-media'
+
+export interface AssetFile {
+  filename: string;
+  url: string;
+  format: string;
+  size: number;
+  contentHash: string | null;
+}
+
+/**
+ * Archive the asset's current file as its next version
+ */
+async function archiveCurrentFile(tx: Prisma.TransactionClient, asset: Asset) {
+  const latest = await tx.assetVersion.findFirst({
+    where: { assetId: asset.id },
+    orderBy: { version: 'desc' },
+    select: { version: true, createdAt: true },
+  })
+
+  return tx.assetVersion.create({
+    data: {
+      assetId: asset.id,
+      version: (latest?.version || 0) + 1,
+      filename: asset.filename,
+      url: asset.url,
+      format: asset.format,
+      size: asset.size,
+      contentHash: asset.contentHash,
+      // The current file arrived when the last one was archived, or with the asset
+      fileCreatedAt: latest?.createdAt || asset.createdAt,
+    },
+  })
+}
+
+/**
+ * Swap in a new file for the asset, keeping the old one as a version
+ * The old file's previews aren't kept, remove them with assetMediaUrls once committed
+ */
+export async function replaceAssetFile(
+  tx: Prisma.TransactionClient,
+  assetId: string,
+  file: AssetFile
+): Promise<Asset> {
+  const asset = await tx.asset.findUniqueOrThrow({ where: { id: assetId } })
+  await archiveCurrentFile(tx, asset)
+
+  // Previews and the similarity hash are generated again in the background
+  return tx.asset.update({
+    where: { id: assetId },
+    data: { ...file, ...RESET_ASSET_MEDIA },
+  })
+}
+
+/**
+ * Put an earlier file back as the asset's current file
+ * The file being replaced is archived too, so a revert can itself be undone
+ */
+export async function revertAssetFile(
+  tx: Prisma.TransactionClient,
+  assetId: string,
+  version: number
+): Promise<Asset | null> {
+  const target = await tx.assetVersion.findUnique({
+    where: { assetId_version: { assetId, version } },
+  })
+  if (!target) return null
+
+  return replaceAssetFile(tx, assetId, {
+    filename: target.filename,
+    url: target.url,
+    format: target.format,
+    size: target.size,
+    contentHash: target.contentHash,
+  })
+}
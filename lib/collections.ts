@@ -0,0 +1,81 @@
+/**
+ * Collection helpers shared by the collection routes
+ * Collections form a tree through parentId and hold an ordered list of assets
+ */
+
+import type { Prisma } from '@prisma/client'
+
+// What a collection card needs: counts plus an image to show
+export const collectionSummaryInclude = {
+  coverAsset: true,
+  items: {
+    include: { asset: true },
+    orderBy: { order: 'asc' },
+    take: 1,
+  },
+  _count: { select: { items: true, children: true } },
+} satisfies Prisma.CollectionInclude
+
+/**
+ * Ancestors of a collection, root first
+ */
+export async function getCollectionPath(
+  tx: Prisma.TransactionClient,
+  parentId: string | null
+): Promise<Array<{ id: string; name: string }>> {
+  const path: Array<{ id: string; name: string }> = []
+  const seen = new Set<string>()
+
+  while (parentId && !seen.has(parentId)) {
+    seen.add(parentId)
+    const parent = await tx.collection.findUnique({
+      where: { id: parentId },
+      select: { id: true, name: true, parentId: true },
+    })
+    if (!parent) break
+    path.unshift({ id: parent.id, name: parent.name })
+    parentId = parent.parentId
+  }
+
+  return path
+}
+
+/**
+ * Whether moving a collection under the given parent would put it inside itself
+ */
+export async function wouldCreateCycle(
+  tx: Prisma.TransactionClient,
+  collectionId: string,
+  parentId: string
+): Promise<boolean> {
+  if (collectionId === parentId) return true
+  const path = await getCollectionPath(tx, parentId)
+  return path.some(ancestor => ancestor.id === collectionId)
+}
+
+/**
+ * Append assets to the end of a collection, skipping ones already in it
+ */
+export async function addAssetsToCollection(
+  tx: Prisma.TransactionClient,
+  collectionId: string,
+  assetIds: string[]
+): Promise<number> {
+  const existing = await tx.collectionItem.findMany({
+    where: { collectionId },
+    select: { assetId: true, order: true },
+  })
+  const present = new Set(existing.map(item => item.assetId))
+  const toAdd = [...new Set(assetIds)].filter(id => !present.has(id))
+  const start = existing.reduce((max, item) => Math.max(max, item.order + 1), 0)
+
+  await tx.collectionItem.createMany({
+    data: toAdd.map((assetId, index) => ({
+      collectionId,
+      assetId,
+      order: start + index,
+    })),
+  })
+
+  return toAdd.length
+}
@@ -0,0 +1,170 @@
+/**
+ * Figma frame import
+ * Saves Figma frames as image assets, optionally linking them into an
+ * interactive flow that keeps the prototype's hotspots
+ */
+
+import type { Asset, Flow, FlowFrame } from '@prisma/client'
+import { prisma } from './db'
+import { exportFrames, downloadImage, getPrototypeHotspots } from './figma'
+import { generateFlowFromPrototype } from './flow-generator'
+import { recordFlowVersion } from './flow-versions'
+import { saveUpload, hashContent } from './uploads'
+import { startMediaProcessor } from './asset-media'
+
+export interface FrameImportMetadata {
+  oem: string;
+  screenType: string;
+  assetType: string;
+  description?: string;
+}
+
+export interface ImportedFrame {
+  frameId: string;
+  asset: Asset;
+  existing: boolean; // An identical image was already in the library, so its asset is reused
+}
+
+// How long each screen of an imported prototype shows when the flow autoplays
+const PROTOTYPE_FRAME_DELAY = 2000
+
+/**
+ * Export frames as PNGs and create an asset (plus FigmaImport record) for each
+ * Frames Figma could not render are skipped, and frames whose image is already in
+ * the library reuse that asset
+ */
+export async function importFramesAsAssets(
+  token: string,
+  fileKey: string,
+  fileName: string,
+  frames: Array<{ id: string; name: string }>,
+  metadata: FrameImportMetadata
+): Promise<ImportedFrame[]> {
+  const exports = await exportFrames(token, fileKey, frames.map(f => f.id), 'png', 2)
+  const imported: ImportedFrame[] = []
+
+  for (const frame of frames) {
+    const exportResult = exports.find(e => e.nodeId === frame.id)
+    if (!exportResult?.imageUrl) continue
+
+    const imageBuffer = await downloadImage(exportResult.imageUrl)
+
+    const existing = await prisma.asset.findFirst({
+      where: { contentHash: hashContent(imageBuffer) },
+      orderBy: { createdAt: 'asc' },
+    })
+    if (existing) {
+      imported.push({ frameId: frame.id, asset: existing, existing: true })
+      continue
+    }
+
+    const { url, contentHash } = await saveUpload(imageBuffer, 'png')
+
+    const asset = await prisma.asset.create({
+      data: {
+        name: frame.name,
+        filename: `${frame.name}.png`,
+        url,
+        oem: metadata.oem,
+        screenType: metadata.screenType,
+        assetType: metadata.assetType,
+        description: metadata.description || null,
+        format: 'png',
+        size: imageBuffer.length,
+        contentHash,
+      },
+    })
+
+    await prisma.figmaImport.create({
+      data: {
+        fileId: fileKey,
+        fileName,
+        frameId: frame.id,
+        frameName: frame.name,
+        assetId: asset.id,
+      },
+    })
+
+    imported.push({ frameId: frame.id, asset, existing: false })
+  }
+
+  startMediaProcessor()
+  return imported
+}
+
+/**
+ * Import prototype screens as a flow whose hotspots link the screens the same
+ * way the Figma prototype does
+ * Screens are ordered breadth-first from the prototype's starting screen,
+ * screens the prototype never reaches are appended at the end
+ */
+export async function importPrototypeFlow(
+  token: string,
+  fileKey: string,
+  fileName: string,
+  frames: Array<{ id: string; name: string }>,
+  options: { name: string; description?: string; metadata: FrameImportMetadata }
+): Promise<{ flow: Flow & { frames: FlowFrame[] }; hotspotCount: number }> {
+  const frameIds = new Set(frames.map(f => f.id))
+  const hotspots = (await getPrototypeHotspots(token, fileKey, [...frameIds]))
+    .filter(h => frameIds.has(h.destinationNodeId) && h.destinationNodeId !== h.frameId)
+
+  const plan = generateFlowFromPrototype(
+    frames,
+    hotspots.map(h => ({
+      sourceNodeId: h.frameId,
+      sourceNodeName: h.sourceNodeName,
+      destinationNodeId: h.destinationNodeId,
+      trigger: h.trigger,
+    })),
+    { duration: PROTOTYPE_FRAME_DELAY / 1000, transition: 'cut' }
+  )
+  const plannedIds = new Set(plan.frames.map(f => f.id))
+  const ordered = [...plan.frames, ...frames.filter(f => !plannedIds.has(f.id))]
+
+  const imported = await importFramesAsAssets(token, fileKey, fileName, ordered, options.metadata)
+  if (imported.length === 0) {
+    throw new Error('Figma did not return images for the selected frames')
+  }
+
+  const flow = await prisma.flow.create({
+    data: {
+      name: options.name,
+      description: options.description || null,
+      figmaFileId: fileKey,
+      frames: {
+        create: imported.map(({ asset }, index) => ({
+          assetId: asset.id,
+          order: index,
+          delay: PROTOTYPE_FRAME_DELAY,
+        })),
+      },
+    },
+    include: {
+      frames: {
+        orderBy: { order: 'asc' },
+      },
+    },
+  })
+
+  // Frames were created in import order, so map Figma frame ids through it
+  const flowFrameIds = new Map(imported.map(({ frameId }, index) => [frameId, flow.frames[index].id]))
+  const links = hotspots.filter(h => flowFrameIds.has(h.frameId) && flowFrameIds.has(h.destinationNodeId))
+
+  await prisma.flowHotspot.createMany({
+    data: links.map(h => ({
+      frameId: flowFrameIds.get(h.frameId)!,
+      targetFrameId: flowFrameIds.get(h.destinationNodeId)!,
+      x: h.x,
+      y: h.y,
+      width: h.width,
+      height: h.height,
+      trigger: h.trigger,
+    })),
+  })
+
+  await recordFlowVersion(prisma, flow.id, 'Imported from Figma')
+
+  console.log(`[figma-import] Created flow "${flow.name}" with ${imported.length} frames and ${links.length} hotspots`)
+  return { flow, hotspotCount: links.length }
+}
@@ -0,0 +1,158 @@
+/**
+ * Figma re-sync
+ * Checks whether the Figma files that assets were imported from have changed
+ * since the last sync, and refreshes the assets whose frames look different
+ */
+
+import { prisma } from './db'
+import { getFileData, exportFrames, downloadImage } from './figma'
+import { replaceAssetFile } from './asset-versions'
+import { saveUpload, readUpload, hashContent } from './uploads'
+import { removeUnusedFiles } from './storage-cleanup'
+import { assetMediaUrls, startMediaProcessor, RESET_ASSET_MEDIA } from './asset-media'
+
+export interface FigmaFileSyncStatus {
+  fileId: string;
+  fileName: string;
+  assetCount: number;
+  syncedAt: string; // Oldest sync among the file's assets
+  lastModified: string | null; // Null when the file could not be read
+  hasUpdates: boolean;
+  error?: string;
+}
+
+export interface FigmaSyncResult {
+  fileId: string;
+  updated: number;
+  unchanged: number;
+  missing: string[]; // Frame names that no longer exist in the file
+}
+
+/**
+ * Compare each imported file's lastModified against when its assets were
+ * last synced
+ */
+export async function checkFigmaUpdates(
+  token: string,
+  fileId?: string
+): Promise<FigmaFileSyncStatus[]> {
+  const [files, unsynced] = await Promise.all([
+    prisma.figmaImport.groupBy({
+      by: ['fileId'],
+      where: fileId ? { fileId } : undefined,
+      _count: { _all: true },
+      _min: { syncedAt: true },
+      _max: { fileName: true },
+    }),
+    // Assets never synced are as fresh as their import
+    prisma.figmaImport.groupBy({
+      by: ['fileId'],
+      where: fileId ? { fileId, syncedAt: null } : { syncedAt: null },
+      _min: { createdAt: true },
+    }),
+  ])
+  const importedAt = new Map(unsynced.map(file => [file.fileId, file._min.createdAt]))
+
+  const statuses: FigmaFileSyncStatus[] = []
+
+  for (const file of files) {
+    const syncedAt = new Date(Math.min(
+      ...[file._min.syncedAt, importedAt.get(file.fileId)]
+        .filter((date): date is Date => !!date)
+        .map(date => date.getTime())
+    ))
+    const status: FigmaFileSyncStatus = {
+      fileId: file.fileId,
+      fileName: file._max.fileName || file.fileId,
+      assetCount: file._count._all,
+      syncedAt: syncedAt.toISOString(),
+      lastModified: null,
+      hasUpdates: false,
+    }
+
+    try {
+      // Skip the cache, a stale lastModified would hide the change
+      const { details } = await getFileData(token, file.fileId, false)
+      status.fileName = details.name
+      status.lastModified = details.lastModified
+      status.hasUpdates = new Date(details.lastModified) > syncedAt
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : 'Failed to read Figma file'
+    }
+
+    statuses.push(status)
+  }
+
+  return statuses
+}
+
+/**
+ * Re-export every frame imported from the file and update the assets whose
+ * image changed, optionally keeping the previous image as an asset version
+ */
+export async function syncFigmaFile(
+  token: string,
+  fileId: string,
+  options: { keepVersions: boolean }
+): Promise<FigmaSyncResult> {
+  const imports = await prisma.figmaImport.findMany({
+    where: { fileId },
+    include: { asset: true },
+  })
+
+  const result: FigmaSyncResult = { fileId, updated: 0, unchanged: 0, missing: [] }
+  if (imports.length === 0) return result
+
+  const syncedAt = new Date()
+  const exports = await exportFrames(token, fileId, imports.map(i => i.frameId), 'png', 2)
+
+  for (const record of imports) {
+    const exportResult = exports.find(e => e.nodeId === record.frameId)
+    if (!exportResult?.imageUrl) {
+      result.missing.push(record.frameName)
+      continue
+    }
+
+    const imageBuffer = await downloadImage(exportResult.imageUrl)
+
+    // The file's lastModified covers every frame, so compare the images
+    // to find the frames that actually changed
+    const unchanged = record.asset.contentHash
+      ? record.asset.contentHash === hashContent(imageBuffer)
+      : (await readUpload(record.asset.url).catch(() => null))?.equals(imageBuffer)
+    if (unchanged) {
+      result.unchanged++
+      continue
+    }
+
+    const { url, contentHash } = await saveUpload(imageBuffer, 'png')
+    const file = {
+      filename: `${record.frameName}.png`,
+      url,
+      format: 'png',
+      size: imageBuffer.length,
+      contentHash,
+    }
+
+    if (options.keepVersions) {
+      await prisma.$transaction(tx => replaceAssetFile(tx, record.assetId, file))
+      await removeUnusedFiles(assetMediaUrls(record.asset))
+    } else {
+      await prisma.asset.update({
+        where: { id: record.assetId },
+        data: { ...file, ...RESET_ASSET_MEDIA },
+      })
+      await removeUnusedFiles([record.asset.url, ...assetMediaUrls(record.asset)])
+    }
+
+    result.updated++
+  }
+
+  if (result.updated > 0) startMediaProcessor()
+
+  // Missing frames are marked too, so they don't flag the file as changed forever
+  await prisma.figmaImport.updateMany({ where: { fileId }, data: { syncedAt } })
+
+  console.log(`[figma-sync] ${fileId}: ${result.updated} updated, ${result.unchanged} unchanged, ${result.missing.length} missing`)
+  return result
+}
@@ -0,0 +1,129 @@
+/**
+ * Figma to video pipeline
+ * Exports a sequence of Figma frames, renders them with FFmpeg and stores the result as an asset
+ */
+
+import { mkdtemp, writeFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { Asset } from '@prisma/client'
+import { prisma } from './db'
+import { exportFrames, downloadImage } from './figma'
+import { isFrameTransition } from './transitions'
+import { renderVideo, VideoSegment, VideoTransition } from './video'
+import { saveUpload } from './uploads'
+import { startMediaProcessor } from './asset-media'
+
+export interface VideoSequenceItem {
+  frameId: string;
+  frameName?: string;
+  duration: number; // seconds
+  transition: VideoTransition; // transition to the NEXT frame
+}
+
+export interface VideoAssetOptions {
+  name: string;
+  metadata: {
+    oem: string;
+    screenType: string;
+    description?: string;
+  };
+  onProgress?: (percent: number) => void;
+}
+
+/**
+ * Validate and normalize a sequence coming from a request body
+ */
+export function parseSequence(input: unknown): VideoSequenceItem[] {
+  if (!Array.isArray(input)) return []
+
+  return input
+    .filter(item => item && typeof item.frameId === 'string')
+    .map(item => ({
+      frameId: item.frameId,
+      frameName: item.frameName,
+      duration: Math.min(10, Math.max(0.5, Number(item.duration) || 2)),
+      transition: isFrameTransition(item.transition) ? item.transition : 'cut',
+    }))
+}
+
+/**
+ * Render a Figma frame sequence into an MP4 and save it as a 'Live Experience' asset
+ */
+export async function createVideoFromFigma(
+  token: string,
+  fileKey: string,
+  sequence: VideoSequenceItem[],
+  options: VideoAssetOptions
+): Promise<Asset> {
+  // Export each unique frame once, even if it appears several times in the sequence
+  const reportProgress = options.onProgress || (() => {})
+  const nodeIds = [...new Set(sequence.map(item => item.frameId))]
+  const exports = await exportFrames(token, fileKey, nodeIds, 'png', 2)
+  reportProgress(10)
+  const exportMap = new Map(exports.map(e => [e.nodeId, e.imageUrl]))
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'mockups-figma-'))
+
+  try {
+    const framePaths = new Map<string, string>()
+    for (const [index, nodeId] of nodeIds.entries()) {
+      const imageUrl = exportMap.get(nodeId)
+      if (!imageUrl) {
+        throw new Error(`Figma did not return an image for frame ${nodeId}`)
+      }
+      const framePath = path.join(workDir, `frame-${index}.png`)
+      await writeFile(framePath, await downloadImage(imageUrl))
+      framePaths.set(nodeId, framePath)
+      reportProgress(10 + Math.round(((index + 1) / nodeIds.length) * 20))
+    }
+
+    const segments: VideoSegment[] = sequence.map(item => ({
+      path: framePaths.get(item.frameId)!,
+      duration: item.duration,
+      transition: item.transition,
+    }))
+
+    console.log(`[figma-video] Rendering ${segments.length} frames...`)
+    // Encoding takes the 30-95% range, storing the result the rest
+    const video = await renderVideo(segments, {
+      onProgress: fraction => reportProgress(30 + Math.round(fraction * 65)),
+    })
+    const { url, contentHash } = await saveUpload(video, 'mp4')
+    reportProgress(100)
+
+    const asset = await prisma.asset.create({
+      data: {
+        name: options.name,
+        filename: `${options.name}.mp4`,
+        url,
+        oem: options.metadata.oem,
+        screenType: options.metadata.screenType,
+        assetType: 'Live Experience',
+        description: options.metadata.description || null,
+        format: 'mp4',
+        size: video.length,
+        contentHash,
+      },
+    })
+    startMediaProcessor()
+    return asset
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Convert a generated flow plan (transition BEFORE each frame) into a
+ * render sequence (transition to the NEXT frame)
+ */
+export function sequenceFromFlowPlan(
+  frames: Array<{ id: string; name: string; duration: number; transition: VideoTransition }>
+): VideoSequenceItem[] {
+  return frames.map((frame, index) => ({
+    frameId: frame.id,
+    frameName: frame.name,
+    duration: frame.duration,
+    transition: frames[index + 1]?.transition || 'cut',
+  }))
+}
@@ -37,6 +37,20 @@ export interface PrototypeConnection {
   trigger: string;
 }
 
+// Clickable region inside a frame that navigates to another node
+export interface PrototypeHotspot {
+  frameId: string; // Top-level frame the hotspot belongs to
+  sourceNodeId: string;
+  sourceNodeName: string;
+  destinationNodeId: string;
+  trigger: string;
+  // Position and size as fractions (0-1) of the frame
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface FigmaExportResult {
   nodeId: string;
   imageUrl: string;
@@ -236,6 +250,103 @@ export async function getPrototypeConnections(
   return fileData.connections;
 }
 
+/**
+ * Get the prototype hotspots inside the given frames
+ * getFileData only reads two levels deep, so this fetches the full node trees
+ * of the frames to find nested reactions and their bounding boxes
+ */
+export async function getPrototypeHotspots(
+  token: string,
+  fileKey: string,
+  frameIds: string[]
+): Promise<PrototypeHotspot[]> {
+  if (frameIds.length === 0) return [];
+
+  interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }
+
+  interface FigmaAction {
+    type: string;
+    destinationId?: string | null;
+  }
+
+  interface FigmaNode {
+    id: string;
+    name: string;
+    type: string;
+    absoluteBoundingBox?: BoundingBox | null;
+    transitionNodeID?: string;
+    reactions?: Array<{
+      trigger?: { type: string };
+      action?: FigmaAction;
+      actions?: FigmaAction[];
+    }>;
+    children?: FigmaNode[];
+  }
+
+  const ids = frameIds.join(',');
+  const data = await figmaFetch<{ nodes: Record<string, { document: FigmaNode } | null> }>(
+    `/files/${fileKey}/nodes?ids=${ids}`,
+    token
+  );
+
+  const hotspots: PrototypeHotspot[] = [];
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  for (const frameId of frameIds) {
+    const frame = data.nodes[frameId]?.document;
+    const frameBox = frame?.absoluteBoundingBox;
+    if (!frame || !frameBox?.width || !frameBox?.height) continue;
+
+    const addHotspot = (node: FigmaNode, destinationNodeId: string, trigger: string) => {
+      const box = node.absoluteBoundingBox || frameBox;
+      const x = clamp((box.x - frameBox.x) / frameBox.width);
+      const y = clamp((box.y - frameBox.y) / frameBox.height);
+      hotspots.push({
+        frameId,
+        sourceNodeId: node.id,
+        sourceNodeName: node.name,
+        destinationNodeId,
+        trigger,
+        x,
+        y,
+        width: clamp((box.x + box.width - frameBox.x) / frameBox.width) - x,
+        height: clamp((box.y + box.height - frameBox.y) / frameBox.height) - y,
+      });
+    };
+
+    const visit = (node: FigmaNode) => {
+      for (const reaction of node.reactions || []) {
+        // Newer files list several actions per reaction, older ones a single action
+        const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+        for (const action of actions) {
+          if (action?.destinationId) {
+            addHotspot(node, action.destinationId, reaction.trigger?.type || 'ON_CLICK');
+          }
+        }
+      }
+
+      // Legacy transition support
+      if (!node.reactions?.length && node.transitionNodeID) {
+        addHotspot(node, node.transitionNodeID, 'ON_CLICK');
+      }
+
+      for (const child of node.children || []) {
+        visit(child);
+      }
+    };
+
+    visit(frame);
+  }
+
+  console.log(`[figma] Found ${hotspots.length} hotspots in ${frameIds.length} frames`);
+  return hotspots;
+}
+
 /**
  * Export frames as images - this is a separate API endpoint
  * Optimized to batch multiple frames in one call
@@ -0,0 +1,83 @@
+/**
+ * Flow export
+ * Renders the ordered frames of a saved Flow into a single MP4, WebM or GIF file
+ */
+
+import { mkdtemp, writeFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { prisma } from './db'
+import { readUpload } from './uploads'
+import { isFrameTransition } from './transitions'
+import { renderVideo, VideoFormat, VideoSegment } from './video'
+
+const VIDEO_ASSET_FORMATS = ['mp4', 'webm', 'mov', 'avi', 'mkv']
+
+// GIFs of full-size mockups get huge, so they are scaled down
+const GIF_MAX_WIDTH = 480
+
+export interface FlowExport {
+  data: Buffer;
+  filename: string;
+}
+
+/**
+ * Render a flow's frames, each shown for its delay and joined by its
+ * transition to the next frame, into one file
+ */
+export async function exportFlow(
+  flowId: string,
+  format: VideoFormat,
+  onProgress?: (percent: number) => void
+): Promise<FlowExport> {
+  const reportProgress = onProgress || (() => {})
+
+  const flow = await prisma.flow.findUnique({
+    where: { id: flowId },
+    include: {
+      frames: {
+        include: { asset: true },
+        orderBy: { order: 'asc' },
+      },
+    },
+  })
+
+  if (!flow) {
+    throw new Error('Flow not found')
+  }
+  if (flow.frames.length === 0) {
+    throw new Error('Flow has no frames to export')
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'mockups-flow-'))
+
+  try {
+    const segments: VideoSegment[] = []
+
+    for (const [index, frame] of flow.frames.entries()) {
+      const extension = frame.asset.format.toLowerCase()
+      const framePath = path.join(workDir, `frame-${index}.${extension}`)
+      await writeFile(framePath, await readUpload(frame.asset.url))
+
+      segments.push({
+        path: framePath,
+        duration: Math.max(0.1, frame.delay / 1000),
+        transition: isFrameTransition(frame.transition) ? frame.transition : 'cut',
+        transitionDuration: frame.transitionDuration / 1000,
+        isVideo: VIDEO_ASSET_FORMATS.includes(extension),
+      })
+      reportProgress(Math.round(((index + 1) / flow.frames.length) * 20))
+    }
+
+    console.log(`[flow-export] Rendering "${flow.name}" as ${format} (${segments.length} frames)...`)
+    const data = await renderVideo(segments, {
+      format,
+      maxWidth: format === 'gif' ? GIF_MAX_WIDTH : undefined,
+      onProgress: fraction => reportProgress(20 + Math.round(fraction * 75)),
+    })
+
+    return { data, filename: `${flow.name}.${format}` }
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
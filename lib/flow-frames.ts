@@ -0,0 +1,53 @@
+/**
+ * Flow frame persistence shared by the flow routes and version restore
+ */
+
+import type { Prisma } from '@prisma/client'
+import { normalizeTransition } from './transitions'
+
+export interface FlowFrameInput {
+  id?: string; // existing frame to keep, along with its hotspots
+  assetId: string;
+  delay?: number;
+  transition?: string; // to the next frame
+  transitionDuration?: number; // ms
+}
+
+/**
+ * Replace a flow's frames with the given list, in order
+ * Frames sent with the id of an existing frame are updated in place so their
+ * hotspots survive, frames without one are created, and missing frames are removed
+ */
+export async function saveFlowFrames(
+  tx: Prisma.TransactionClient,
+  flowId: string,
+  frames: FlowFrameInput[]
+) {
+  const existing = await tx.flowFrame.findMany({
+    where: { flowId },
+    select: { id: true },
+  })
+  const existingIds = new Set(existing.map(frame => frame.id))
+
+  const keptIds = frames
+    .map(frame => frame.id)
+    .filter((frameId): frameId is string => !!frameId && existingIds.has(frameId))
+
+  await tx.flowFrame.deleteMany({
+    where: { flowId, id: { notIn: keptIds } },
+  })
+
+  for (const [index, frame] of frames.entries()) {
+    const data = {
+      order: index,
+      delay: frame.delay || 1000,
+      ...normalizeTransition(frame.transition, frame.transitionDuration),
+    }
+
+    if (frame.id && existingIds.has(frame.id)) {
+      await tx.flowFrame.update({ where: { id: frame.id }, data })
+    } else {
+      await tx.flowFrame.create({ data: { ...data, flowId, assetId: frame.assetId } })
+    }
+  }
+}
@@ -34,7 +34,7 @@ export interface FlowSettings {
 
 /**
  * Generate a video flow from Figma prototype connections
- * Orders frames based on prototype flow, applies user settings
+ * Orders frames by walking every branch of the prototype, applies user settings
  */
 export function generateFlowFromPrototype(
   frames: FrameInfo[],
@@ -67,28 +67,29 @@ export function generateFlowFromPrototype(
   const entryPoints = [...sourceIds].filter(id => !destIds.has(id));
 
   // If no clear entry point, use the first source
-  const startId = entryPoints[0] || connections[0]?.sourceNodeId;
-
-  if (startId) {
-    // Follow the prototype flow
-    let currentId: string | null = startId;
-
-    while (currentId && !visitedIds.has(currentId)) {
-      visitedIds.add(currentId);
-      
-      const frame = frameMap.get(currentId);
-      if (frame) {
-        orderedFrames.push({
-          id: frame.id,
-          name: frame.name,
-          duration,
-          transition,
-        });
-      }
+  const queue = entryPoints.length > 0 ? entryPoints : [connections[0].sourceNodeId];
+
+  // Walk the prototype breadth-first so every branch is included,
+  // with the screens closest to the start coming first
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (visitedIds.has(currentId)) continue;
+    visitedIds.add(currentId);
+
+    const frame = frameMap.get(currentId);
+    if (frame) {
+      orderedFrames.push({
+        id: frame.id,
+        name: frame.name,
+        duration,
+        transition,
+      });
+    }
 
-      // Find next frame in the flow
-      const connection = connections.find(c => c.sourceNodeId === currentId);
-      currentId = connection?.destinationNodeId || null;
+    for (const connection of connections) {
+      if (connection.sourceNodeId === currentId && connection.destinationNodeId) {
+        queue.push(connection.destinationNodeId);
+      }
     }
   }
 
@@ -0,0 +1,244 @@
+/**
+ * Flow version history
+ * Every create and update stores a snapshot of the flow, so earlier orderings
+ * can be compared and restored
+ */
+
+import type { Prisma } from '@prisma/client'
+import { saveFlowFrames } from './flow-frames'
+
+export interface FlowSnapshotFrame {
+  frameId: string; // frame id at snapshot time, reused on restore if the frame still exists
+  assetId: string;
+  assetName: string;
+  delay: number;
+  transition: string;
+  transitionDuration: number;
+}
+
+export interface FlowSnapshot {
+  name: string;
+  description: string | null;
+  frames: FlowSnapshotFrame[];
+}
+
+interface FrameChange {
+  assetId: string;
+  assetName: string;
+}
+
+export interface FlowVersionDiff {
+  renamed: { from: string; to: string } | null;
+  descriptionChanged: boolean;
+  added: Array<FrameChange & { position: number }>;
+  removed: Array<FrameChange & { position: number }>;
+  moved: Array<FrameChange & { from: number; to: number }>;
+  delayChanged: Array<FrameChange & { from: number; to: number }>;
+  transitionChanged: Array<FrameChange & { from: string; to: string }>;
+}
+
+/**
+ * Read the flow's current state in snapshot form
+ */
+export async function loadFlowSnapshot(
+  tx: Prisma.TransactionClient,
+  flowId: string
+): Promise<FlowSnapshot> {
+  const flow = await tx.flow.findUniqueOrThrow({
+    where: { id: flowId },
+    include: {
+      frames: {
+        include: { asset: { select: { name: true } } },
+        orderBy: { order: 'asc' },
+      },
+    },
+  })
+
+  return {
+    name: flow.name,
+    description: flow.description,
+    frames: flow.frames.map(frame => ({
+      frameId: frame.id,
+      assetId: frame.assetId,
+      assetName: frame.asset.name,
+      delay: frame.delay,
+      transition: frame.transition,
+      transitionDuration: frame.transitionDuration,
+    })),
+  }
+}
+
+/**
+ * Store the flow's current state as its next version
+ */
+export async function recordFlowVersion(
+  tx: Prisma.TransactionClient,
+  flowId: string,
+  note: string
+) {
+  const snapshot = await loadFlowSnapshot(tx, flowId)
+
+  const latest = await tx.flowVersion.findFirst({
+    where: { flowId },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+
+  return tx.flowVersion.create({
+    data: {
+      flowId,
+      version: (latest?.version || 0) + 1,
+      note,
+      name: snapshot.name,
+      description: snapshot.description,
+      frames: snapshot.frames as unknown as Prisma.InputJsonValue,
+    },
+  })
+}
+
+/**
+ * Store the flow's current state before changing it, if it has no versions yet
+ * Flows created before version history existed would otherwise lose their
+ * original frame order on their first edit
+ */
+export async function recordBaselineVersion(tx: Prisma.TransactionClient, flowId: string) {
+  const versions = await tx.flowVersion.count({ where: { flowId } })
+  if (versions === 0) {
+    await recordFlowVersion(tx, flowId, 'Before first edit')
+  }
+}
+
+/**
+ * Read a version number from a URL, null unless it's written as plain digits and
+ * is a version number the version column can hold. Used for asset versions too,
+ * which are numbered the same way from 1
+ */
+export function parseVersionNumber(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null
+  const version = Number(value)
+  return version >= 1 && version <= 2147483647 ? version : null
+}
+
+/**
+ * Read the stored snapshot of a version row
+ */
+export function snapshotOf(version: { name: string; description: string | null; frames: Prisma.JsonValue }): FlowSnapshot {
+  return {
+    name: version.name,
+    description: version.description,
+    frames: Array.isArray(version.frames) ? version.frames as unknown as FlowSnapshotFrame[] : [],
+  }
+}
+
+/**
+ * Frames are matched by asset, counting repeats, so a frame that was deleted
+ * and re-added still counts as the same frame
+ */
+function keyFrames(frames: FlowSnapshotFrame[]) {
+  const seen = new Map<string, number>()
+  return frames.map((frame, index) => {
+    const occurrence = (seen.get(frame.assetId) || 0) + 1
+    seen.set(frame.assetId, occurrence)
+    return { key: `${frame.assetId}#${occurrence}`, frame, index }
+  })
+}
+
+/**
+ * Describe what changed between two snapshots
+ * Positions are 1-based to match the flow UI
+ */
+export function diffFlowSnapshots(from: FlowSnapshot, to: FlowSnapshot): FlowVersionDiff {
+  const before = keyFrames(from.frames)
+  const after = keyFrames(to.frames)
+  const beforeByKey = new Map(before.map(entry => [entry.key, entry]))
+  const afterKeys = new Set(after.map(entry => entry.key))
+
+  const diff: FlowVersionDiff = {
+    renamed: from.name !== to.name ? { from: from.name, to: to.name } : null,
+    descriptionChanged: (from.description || '') !== (to.description || ''),
+    added: [],
+    removed: [],
+    moved: [],
+    delayChanged: [],
+    transitionChanged: [],
+  }
+
+  for (const { key, frame, index } of before) {
+    if (!afterKeys.has(key)) {
+      diff.removed.push({ assetId: frame.assetId, assetName: frame.assetName, position: index + 1 })
+    }
+  }
+
+  // Compare positions among the frames both versions share, so adding or
+  // removing a frame does not count as moving every frame after it
+  const sharedBefore = before.filter(entry => afterKeys.has(entry.key)).map(entry => entry.key)
+  const sharedAfter = after.filter(entry => beforeByKey.has(entry.key)).map(entry => entry.key)
+
+  for (const { key, frame, index } of after) {
+    const previous = beforeByKey.get(key)
+    const change = { assetId: frame.assetId, assetName: frame.assetName }
+
+    if (!previous) {
+      diff.added.push({ ...change, position: index + 1 })
+      continue
+    }
+
+    if (sharedBefore.indexOf(key) !== sharedAfter.indexOf(key)) {
+      diff.moved.push({ ...change, from: previous.index + 1, to: index + 1 })
+    }
+    if (previous.frame.delay !== frame.delay) {
+      diff.delayChanged.push({ ...change, from: previous.frame.delay, to: frame.delay })
+    }
+    if (previous.frame.transition !== frame.transition) {
+      diff.transitionChanged.push({ ...change, from: previous.frame.transition, to: frame.transition })
+    }
+  }
+
+  return diff
+}
+
+export class FlowRestoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FlowRestoreError'
+  }
+}
+
+/**
+ * Put a flow back to a stored snapshot and record that as a new version
+ * Frames that still exist keep their hotspots; frames whose asset has since
+ * been deleted are skipped. Throws FlowRestoreError if none are left
+ */
+export async function restoreFlowVersion(
+  tx: Prisma.TransactionClient,
+  flowId: string,
+  version: { version: number; name: string; description: string | null; frames: Prisma.JsonValue }
+) {
+  const snapshot = snapshotOf(version)
+
+  const assets = await tx.asset.findMany({
+    where: { id: { in: snapshot.frames.map(frame => frame.assetId) } },
+    select: { id: true },
+  })
+  const assetIds = new Set(assets.map(asset => asset.id))
+  const frames = snapshot.frames.filter(frame => assetIds.has(frame.assetId))
+
+  if (frames.length === 0) {
+    throw new FlowRestoreError('None of the frames in this version exist anymore')
+  }
+
+  await saveFlowFrames(tx, flowId, frames.map(frame => ({
+    id: frame.frameId,
+    assetId: frame.assetId,
+    delay: frame.delay,
+    transition: frame.transition,
+    transitionDuration: frame.transitionDuration,
+  })))
+
+  await tx.flow.update({
+    where: { id: flowId },
+    data: { name: snapshot.name, description: snapshot.description },
+  })
+
+  return recordFlowVersion(tx, flowId, `Restored version ${version.version}`)
+}
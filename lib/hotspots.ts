@@ -0,0 +1,41 @@
+/**
+ * Flow hotspot helpers
+ * Hotspot rectangles are stored as fractions (0-1) of the frame size, so they
+ * stay in place however large the frame is displayed
+ */
+
+export interface HotspotRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Smallest hotspot side, as a fraction of the frame - anything smaller is a stray click
+export const MIN_HOTSPOT_SIZE = 0.02
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Validate a rectangle from user input and clamp it to the frame
+ * Returns null if it is malformed or too small to click
+ */
+export function normalizeHotspotRect(input: unknown): HotspotRect | null {
+  if (!input || typeof input !== 'object') return null
+
+  const { x, y, width, height } = input as Record<string, unknown>
+  const values = [x, y, width, height].map(Number)
+  if (values.some(value => !Number.isFinite(value))) return null
+
+  const left = clamp(values[0])
+  const top = clamp(values[1])
+  const rect = {
+    x: left,
+    y: top,
+    width: clamp(left + values[2]) - left,
+    height: clamp(top + values[3]) - top,
+  }
+
+  if (rect.width < MIN_HOTSPOT_SIZE || rect.height < MIN_HOTSPOT_SIZE) return null
+  return rect
+}
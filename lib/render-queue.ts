@@ -0,0 +1,256 @@
+/**
+ * Background render job queue
+ * Jobs are persisted as RenderJob rows and processed out of band by an
+ * in-process worker, so API routes can return immediately and clients poll
+ * GET /api/jobs/[id] for progress.
+ */
+
+import type { Prisma, RenderJob } from '@prisma/client'
+import { prisma } from './db'
+import { getFigmaToken, getFileData } from './figma'
+import { generateFlowFromPrototype, FlowSettings } from './flow-generator'
+import { generateFlowWithAI } from './claude'
+import { createVideoFromFigma, sequenceFromFlowPlan, VideoAssetOptions, VideoSequenceItem } from './figma-video'
+import { exportFlow } from './flow-export'
+import { saveUpload } from './uploads'
+import { expireRenderJobs } from './storage-cleanup'
+import type { VideoFormat } from './video'
+
+// Running jobs refresh their heartbeat this often, however long a render step takes
+const HEARTBEAT_INTERVAL = 30 * 1000
+// Running jobs without a heartbeat for this long were interrupted (e.g. by a server restart)
+const STALE_JOB_TIMEOUT = 5 * 60 * 1000 // 5 minutes
+// Minimum time between progress writes to the database
+const PROGRESS_WRITE_INTERVAL = 500
+
+export type RenderJobType = 'figma-sequence' | 'figma-smart' | 'figma-ai' | 'flow-export'
+
+interface FigmaJobBase {
+  fileKey: string;
+  videoName: string;
+  metadata: VideoAssetOptions['metadata'];
+}
+
+export interface RenderJobPayloads {
+  'figma-sequence': FigmaJobBase & { sequence: VideoSequenceItem[] };
+  'figma-smart': FigmaJobBase & { frameIds?: string[]; settings: FlowSettings };
+  'figma-ai': FigmaJobBase & { frameIds?: string[]; description: string };
+  'flow-export': { flowId: string; format: VideoFormat };
+}
+
+// Jobs either create an asset or produce a downloadable file
+type JobOutput =
+  | { outputAssetId: string }
+  | { outputUrl: string; outputFilename: string }
+
+type JobHandler<T extends RenderJobType> = (
+  payload: RenderJobPayloads[T],
+  onProgress: (percent: number) => void
+) => Promise<JobOutput>
+
+async function requireFigmaToken(): Promise<string> {
+  const token = await getFigmaToken()
+  if (!token) {
+    throw new Error('Figma access token not configured')
+  }
+  return token
+}
+
+async function selectFrames(token: string, fileKey: string, frameIds?: string[]) {
+  const fileData = await getFileData(token, fileKey)
+  const frames = frameIds?.length
+    ? fileData.frames.filter(f => frameIds.includes(f.id))
+    : fileData.frames
+  return { frames, connections: fileData.connections }
+}
+
+const handlers: { [T in RenderJobType]: JobHandler<T> } = {
+  'figma-sequence': async (payload, onProgress) => {
+    const token = await requireFigmaToken()
+    const asset = await createVideoFromFigma(token, payload.fileKey, payload.sequence, {
+      name: payload.videoName,
+      metadata: payload.metadata,
+      onProgress,
+    })
+    return { outputAssetId: asset.id }
+  },
+
+  'figma-smart': async (payload, onProgress) => {
+    const token = await requireFigmaToken()
+    const { frames, connections } = await selectFrames(token, payload.fileKey, payload.frameIds)
+    const plan = generateFlowFromPrototype(frames, connections, payload.settings)
+
+    if (plan.frames.length < 2) {
+      throw new Error('The prototype needs at least 2 frames to create a video')
+    }
+
+    const asset = await createVideoFromFigma(token, payload.fileKey, sequenceFromFlowPlan(plan.frames), {
+      name: payload.videoName,
+      metadata: payload.metadata,
+      onProgress,
+    })
+    return { outputAssetId: asset.id }
+  },
+
+  'figma-ai': async (payload, onProgress) => {
+    const token = await requireFigmaToken()
+    const { frames } = await selectFrames(token, payload.fileKey, payload.frameIds)
+    const plan = await generateFlowWithAI(
+      frames.map(f => ({ id: f.id, name: f.name })),
+      payload.description
+    )
+
+    if (plan.frames.length < 2) {
+      throw new Error('The generated flow needs at least 2 frames to create a video')
+    }
+
+    const asset = await createVideoFromFigma(token, payload.fileKey, sequenceFromFlowPlan(plan.frames), {
+      name: payload.videoName,
+      metadata: payload.metadata,
+      onProgress,
+    })
+    return { outputAssetId: asset.id }
+  },
+
+  'flow-export': async (payload, onProgress) => {
+    const { data, filename } = await exportFlow(payload.flowId, payload.format, onProgress)
+    const { url } = await saveUpload(data, payload.format)
+    return { outputUrl: url, outputFilename: filename }
+  },
+}
+
+const globalForWorker = globalThis as unknown as {
+  renderWorkerRunning: boolean | undefined
+}
+
+/**
+ * Persist a new job and make sure the worker is running
+ */
+export async function enqueueRenderJob<T extends RenderJobType>(
+  type: T,
+  payload: RenderJobPayloads[T]
+): Promise<RenderJob> {
+  const job = await prisma.renderJob.create({
+    data: {
+      type,
+      payload: payload as unknown as Prisma.InputJsonValue,
+    },
+  })
+
+  startRenderWorker()
+  return job
+}
+
+/**
+ * Atomically claim the oldest queued job, so concurrent workers never
+ * process the same job twice
+ */
+async function claimNextJob(): Promise<RenderJob | null> {
+  // Requeue jobs whose worker died mid-render. Jobs claimed before heartbeats
+  // existed only have their last update to go by
+  const cutoff = new Date(Date.now() - STALE_JOB_TIMEOUT)
+  await prisma.renderJob.updateMany({
+    where: {
+      status: 'running',
+      OR: [
+        { heartbeatAt: { lt: cutoff } },
+        { heartbeatAt: null, updatedAt: { lt: cutoff } },
+      ],
+    },
+    data: { status: 'queued', progress: 0, heartbeatAt: null },
+  })
+
+  while (true) {
+    const next = await prisma.renderJob.findFirst({
+      where: { status: 'queued' },
+      orderBy: { createdAt: 'asc' },
+    })
+    if (!next) return null
+
+    const claimed = await prisma.renderJob.updateMany({
+      where: { id: next.id, status: 'queued' },
+      data: { status: 'running', startedAt: new Date(), heartbeatAt: new Date() },
+    })
+    if (claimed.count === 1) return next
+  }
+}
+
+async function processJob(job: RenderJob) {
+  console.log(`[render-queue] Processing ${job.type} job ${job.id}`)
+
+  let lastProgress = 0
+  let lastWrite = 0
+  const onProgress = (percent: number) => {
+    const progress = Math.max(lastProgress, Math.min(99, Math.round(percent)))
+    if (progress === lastProgress || Date.now() - lastWrite < PROGRESS_WRITE_INTERVAL) return
+    lastProgress = progress
+    lastWrite = Date.now()
+    prisma.renderJob
+      .update({ where: { id: job.id }, data: { progress } })
+      .catch(err => console.error('[render-queue] Failed to update progress:', err))
+  }
+
+  // Progress can go quiet for long stretches, e.g. while FFmpeg encodes
+  const heartbeat = setInterval(() => {
+    prisma.renderJob
+      .updateMany({ where: { id: job.id, status: 'running' }, data: { heartbeatAt: new Date() } })
+      .catch(err => console.error('[render-queue] Failed to update heartbeat:', err))
+  }, HEARTBEAT_INTERVAL)
+
+  try {
+    const handler = handlers[job.type as RenderJobType] as JobHandler<RenderJobType> | undefined
+    if (!handler) {
+      throw new Error(`Unknown render job type: ${job.type}`)
+    }
+
+    const payload = job.payload as unknown as RenderJobPayloads[RenderJobType]
+    const output = await handler(payload, onProgress)
+
+    await prisma.renderJob.update({
+      where: { id: job.id },
+      data: { status: 'completed', progress: 100, ...output, completedAt: new Date() },
+    })
+    console.log(`[render-queue] Job ${job.id} completed`)
+  } catch (error) {
+    console.error(`[render-queue] Job ${job.id} failed:`, error)
+    await prisma.renderJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Render failed',
+        completedAt: new Date(),
+      },
+    })
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Start the background worker if it is not already running in this process
+ * The worker drains the queue one job at a time and then stops
+ */
+export function startRenderWorker() {
+  if (globalForWorker.renderWorkerRunning) return
+  globalForWorker.renderWorkerRunning = true
+
+  const run = async () => {
+    try {
+      await expireRenderJobs().catch(error => {
+        console.error('[render-queue] Failed to expire old exports:', error)
+      })
+
+      let job = await claimNextJob()
+      while (job) {
+        await processJob(job)
+        job = await claimNextJob()
+      }
+    } catch (error) {
+      console.error('[render-queue] Worker error:', error)
+    } finally {
+      globalForWorker.renderWorkerRunning = false
+    }
+  }
+
+  void run()
+}
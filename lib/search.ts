@@ -0,0 +1,300 @@
+/**
+ * Ranked search over asset and flow metadata
+ * Each query term must match a word in some field, either exactly, as a prefix, or
+ * within a small edit distance for longer terms. The database first narrows assets
+ * and flows to a bounded set that could match, which is then ranked in-process. Matches in
+ * heavier fields (name, tags) rank higher, and every match is reported as a
+ * highlight range
+ */
+
+import type { Prisma } from '@prisma/client'
+
+export interface SearchHighlight {
+  field: string
+  text: string
+  ranges: Array<[number, number]> // [start, end) character offsets into text
+}
+
+export interface SearchHit<T> {
+  item: T
+  score: number
+  highlights: SearchHighlight[]
+}
+
+interface SearchField {
+  field: string
+  text: string
+  weight: number
+}
+
+interface Token {
+  word: string
+  start: number
+  end: number
+}
+
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 4,
+  tags: 3,
+  frameName: 2,
+  fileName: 2,
+  oem: 2,
+  screenType: 2,
+  assetType: 1,
+  description: 1,
+}
+
+// Score multipliers by match quality
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.7
+const FUZZY_MATCH = 0.4
+
+const DEFAULT_LIMIT = 50
+// Most assets or flows ranked per query, the newest candidates win beyond this
+export const MAX_SEARCH_CANDIDATES = 1000
+
+function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0
+    tokens.push({ word: normalizeWord(match[0]), start, end: start + match[0].length })
+  }
+  return tokens
+}
+
+export function parseQuery(query: string): string[] {
+  return [...new Set(tokenize(query).map(token => token.word))]
+}
+
+// Short terms must match exactly or as a prefix, longer ones tolerate typos
+function maxEdits(term: string): number {
+  if (term.length >= 8) return 2
+  if (term.length >= 4) return 1
+  return 0
+}
+
+// Levenshtein distance, giving up once it exceeds limit
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > limit) return limit + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Pieces of the term, at least one of which appears verbatim in any word the term
+// matches: each edit can spoil only one of the maxEdits + 1 pieces
+function termPieces(term: string): string[] {
+  const count = maxEdits(term) + 1
+  return Array.from({ length: count }, (_, i) =>
+    term.slice(Math.round(i * term.length / count), Math.round((i + 1) * term.length / count))
+  )
+}
+
+/**
+ * Assets that could match every term, for the database to narrow candidates by
+ * A superset of the matches: ranking decides which really do
+ */
+function assetCandidateWhere(terms: string[]): Prisma.AssetWhereInput {
+  return {
+    AND: terms.map(term => ({
+      OR: termPieces(term).flatMap(piece => {
+        const contains = { contains: piece, mode: 'insensitive' as const }
+        return [
+          { name: contains },
+          { description: contains },
+          { oem: contains },
+          { screenType: contains },
+          { assetType: contains },
+          { tags: { some: { name: contains } } },
+          { figmaImport: { is: { OR: [{ fileName: contains }, { frameName: contains }] } } },
+        ]
+      }),
+    })),
+  }
+}
+
+/**
+ * Flows that could match every term, like assetCandidateWhere
+ */
+function flowCandidateWhere(terms: string[]): Prisma.FlowWhereInput {
+  return {
+    AND: terms.map(term => ({
+      OR: termPieces(term).flatMap(piece => {
+        const contains = { contains: piece, mode: 'insensitive' as const }
+        return [{ name: contains }, { description: contains }]
+      }),
+    })),
+  }
+}
+
+function matchTerm(term: string, word: string): number {
+  if (word === term) return EXACT_MATCH
+  if (word.startsWith(term)) return PREFIX_MATCH
+
+  const limit = maxEdits(term)
+  if (limit === 0) return 0
+
+  // Compare against the whole word and its same-length prefix, so a typo in a
+  // partially typed word still matches
+  const distance = Math.min(
+    editDistance(term, word, limit),
+    editDistance(term, word.slice(0, term.length), limit)
+  )
+  return distance <= limit ? FUZZY_MATCH : 0
+}
+
+/**
+ * Score one document against the query terms
+ * Returns null unless every term matches somewhere
+ */
+function scoreDocument(
+  terms: string[],
+  fields: SearchField[]
+): { score: number; highlights: SearchHighlight[] } | null {
+  const tokenized = fields.map(field => ({ field, tokens: tokenize(field.text) }))
+  const ranges = new Map<SearchField, Array<[number, number]>>()
+  let score = 0
+
+  for (const term of terms) {
+    let best = 0
+    for (const { field, tokens } of tokenized) {
+      for (const token of tokens) {
+        const quality = matchTerm(term, token.word)
+        if (quality === 0) continue
+
+        best = Math.max(best, quality * field.weight)
+        const fieldRanges = ranges.get(field) || []
+        fieldRanges.push([token.start, token.end])
+        ranges.set(field, fieldRanges)
+      }
+    }
+    if (best === 0) return null
+    score += best
+  }
+
+  const highlights = [...ranges.entries()]
+    .sort(([a], [b]) => b.weight - a.weight)
+    .map(([field, fieldRanges]) => ({
+      field: field.field,
+      text: field.text,
+      ranges: mergeRanges(fieldRanges),
+    }))
+
+  return { score, highlights }
+}
+
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+function buildFields(values: Record<string, string | null | undefined>): SearchField[] {
+  return Object.entries(values)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([field, text]) => ({ field, text, weight: FIELD_WEIGHTS[field] ?? 1 }))
+}
+
+/**
+ * Rank documents by how well they match the query, best first
+ */
+export function rankDocuments<T>(
+  query: string,
+  documents: Array<{ item: T; fields: SearchField[] }>,
+  limit = DEFAULT_LIMIT
+): SearchHit<T>[] {
+  const terms = parseQuery(query)
+  if (terms.length === 0) return []
+
+  const hits: SearchHit<T>[] = []
+  for (const document of documents) {
+    const result = scoreDocument(terms, document.fields)
+    if (result) hits.push({ item: document.item, ...result })
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+}
+
+/**
+ * Search assets by name, description, taxonomy values, tags and the Figma
+ * file and frame they were imported from
+ */
+export async function searchAssets(tx: Prisma.TransactionClient, query: string, limit = DEFAULT_LIMIT) {
+  const terms = parseQuery(query)
+  if (terms.length === 0) return []
+
+  const assets = await tx.asset.findMany({
+    where: assetCandidateWhere(terms),
+    include: {
+      tags: true,
+      figmaImport: { select: { fileName: true, frameName: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_SEARCH_CANDIDATES,
+  })
+
+  return rankDocuments(
+    query,
+    assets.map(({ figmaImport, ...asset }) => ({
+      item: asset,
+      fields: buildFields({
+        name: asset.name,
+        description: asset.description,
+        oem: asset.oem,
+        screenType: asset.screenType,
+        assetType: asset.assetType,
+        tags: asset.tags.map(tag => tag.name).join(', '),
+        fileName: figmaImport?.fileName,
+        frameName: figmaImport?.frameName,
+      }),
+    })),
+    limit
+  )
+}
+
+/**
+ * Search flows by name and description
+ */
+export async function searchFlows(tx: Prisma.TransactionClient, query: string, limit = DEFAULT_LIMIT) {
+  const terms = parseQuery(query)
+  if (terms.length === 0) return []
+
+  const flows = await tx.flow.findMany({
+    where: flowCandidateWhere(terms),
+    include: { _count: { select: { frames: true } } },
+    orderBy: { updatedAt: 'desc' },
+    take: MAX_SEARCH_CANDIDATES,
+  })
+
+  return rankDocuments(
+    query,
+    flows.map(flow => ({
+      item: flow,
+      fields: buildFields({ name: flow.name, description: flow.description }),
+    })),
+    limit
+  )
+}
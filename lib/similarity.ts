@@ -0,0 +1,185 @@
+/**
+ * Perceptual near-duplicate detection
+ * Every image, and every video's poster frame, gets a 64-bit difference hash (dHash).
+ * Small edits like a copy change flip only a few bits, so the share of matching bits
+ * says how alike two screens look. Hashes are taken along with the asset's previews,
+ * see lib/asset-media.ts
+ */
+
+import sharp from 'sharp'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './db'
+
+const HASH_BITS = 64
+// Assets at least this similar are reported as near-duplicates unless asked otherwise
+export const DEFAULT_MIN_SIMILARITY = 0.9
+
+// Fields the similar assets panel and duplicates report show for each asset
+const ASSET_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  url: true,
+  thumbnailSmallUrl: true,
+  format: true,
+  size: true,
+  oem: true,
+  screenType: true,
+  createdAt: true,
+  perceptualHash: true,
+} satisfies Prisma.AssetSelect
+
+export type AssetSummary = Prisma.AssetGetPayload<{ select: typeof ASSET_SUMMARY_SELECT }>
+
+export interface SimilarAsset {
+  asset: AssetSummary
+  similarity: number // 0-1, share of matching hash bits
+}
+
+export interface DuplicateGroup {
+  assets: AssetSummary[]
+  similarity: number // Lowest similarity between two linked assets in the group
+}
+
+/**
+ * dHash: shrink to 9x8 grayscale and record whether each pixel is brighter than
+ * its right-hand neighbour, as 16 hex characters
+ */
+export async function differenceHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0
+    for (let col = 0; col < 8; col++) {
+      nibble = (nibble << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0)
+      if (col % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+/**
+ * Read a minimum similarity from a query parameter, falling back to the default
+ * Values below half are meaningless for dHash, random images already share half their bits
+ */
+export function parseMinSimilarity(value: string | null): number {
+  const parsed = Number(value)
+  if (!value || isNaN(parsed)) return DEFAULT_MIN_SIMILARITY
+  return Math.min(1, Math.max(0.5, parsed))
+}
+
+function popcount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555)
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333)
+  return Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24
+}
+
+// A hash as two 32-bit halves, so distances are two XORs and popcounts
+type ParsedHash = [number, number]
+
+function parseHash(hash: string): ParsedHash {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)]
+}
+
+function hashDistance(a: ParsedHash, b: ParsedHash): number {
+  return popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1])
+}
+
+function maxDistanceFor(minSimilarity: number): number {
+  return Math.floor((1 - minSimilarity) * HASH_BITS)
+}
+
+const similarityFor = (distance: number) => 1 - distance / HASH_BITS
+
+async function hashedAssets(): Promise<Array<{ asset: AssetSummary; parsed: ParsedHash }>> {
+  const assets = await prisma.asset.findMany({
+    where: { perceptualHash: { not: null } },
+    select: ASSET_SUMMARY_SELECT,
+    orderBy: { createdAt: 'asc' },
+  })
+  return assets.map(asset => ({ asset, parsed: parseHash(asset.perceptualHash!) }))
+}
+
+/**
+ * Assets that look like the given one, most similar first
+ * Null if the asset doesn't exist, empty if it hasn't been hashed yet
+ */
+export async function findSimilarAssets(
+  assetId: string,
+  minSimilarity = DEFAULT_MIN_SIMILARITY,
+  limit = 24
+): Promise<SimilarAsset[] | null> {
+  const target = await prisma.asset.findUnique({
+    where: { id: assetId },
+    select: { perceptualHash: true },
+  })
+  if (!target) return null
+  if (!target.perceptualHash) return []
+
+  const parsed = parseHash(target.perceptualHash)
+  const maxDistance = maxDistanceFor(minSimilarity)
+
+  return (await hashedAssets())
+    .filter(({ asset }) => asset.id !== assetId)
+    .map(({ asset, parsed: other }) => ({ asset, distance: hashDistance(parsed, other) }))
+    .filter(match => match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ asset, distance }) => ({ asset, similarity: similarityFor(distance) }))
+}
+
+/**
+ * Group the library's assets into sets that look alike
+ * Groups are connected: every asset is above the threshold with at least one other
+ * in its group, though not necessarily with all of them. Largest groups come first
+ */
+export async function findDuplicateGroups(minSimilarity = DEFAULT_MIN_SIMILARITY): Promise<DuplicateGroup[]> {
+  const assets = await hashedAssets()
+  const maxDistance = maxDistanceFor(minSimilarity)
+
+  // Union-find over every pair close enough to count as a match
+  const parent = assets.map((_, index) => index)
+  const root = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+  const worstDistance = new Map<number, number>()
+
+  for (let i = 0; i < assets.length; i++) {
+    for (let j = i + 1; j < assets.length; j++) {
+      const distance = hashDistance(assets[i].parsed, assets[j].parsed)
+      if (distance > maxDistance) continue
+
+      const a = root(i)
+      const b = root(j)
+      parent[b] = a
+      worstDistance.set(a, Math.max(distance, worstDistance.get(a) ?? 0, worstDistance.get(b) ?? 0))
+    }
+  }
+
+  const members = new Map<number, AssetSummary[]>()
+  assets.forEach(({ asset }, index) => {
+    const group = root(index)
+    if (!members.has(group)) members.set(group, [])
+    members.get(group)!.push(asset)
+  })
+
+  return [...members.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([group, groupAssets]) => ({
+      assets: groupAssets,
+      similarity: similarityFor(worstDistance.get(group) ?? 0),
+    }))
+    .sort((a, b) => b.assets.length - a.assets.length || b.similarity - a.similarity)
+}
@@ -0,0 +1,185 @@
+/**
+ * Keep stored files and the database in step
+ * Files go when the last row pointing at them is deleted, and a scan finds what slipped
+ * through: stored files nothing points at, and assets whose file is gone
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { deleteUpload } from './uploads'
+import { getStorage, getStorageFor, type StorageDriverName } from './storage'
+import { deleteAssets, BATCH_TRANSACTION_OPTIONS } from './asset-batch'
+import { assetMediaUrls } from './asset-media'
+
+// Files younger than this may belong to an upload whose asset isn't created yet
+const ORPHAN_GRACE_PERIOD = 60 * 60 * 1000 // 1 hour
+// Finished exports stay downloadable this long, then their job and file go
+const EXPORT_RETENTION = 24 * 60 * 60 * 1000 // 24 hours
+
+const exportCutoff = () => new Date(Date.now() - EXPORT_RETENTION)
+
+export interface StorageScan {
+  driver: StorageDriverName
+  scannedFiles: number
+  orphans: Array<{ url: string; size: number; modifiedAt: Date }>
+  missing: Array<{ id: string; name: string; url: string }>
+}
+
+export interface StorageFixResult {
+  removedFiles: number
+  deletedAssets: number
+}
+
+// Every column of an asset that holds a stored file
+const ASSET_FILES_SELECT = {
+  url: true,
+  thumbnailUrl: true,
+  thumbnailSmallUrl: true,
+  posterUrl: true,
+} satisfies Prisma.AssetSelect
+
+/**
+ * Every file an asset holds: its current one, its previews and the ones kept as versions
+ */
+export async function assetFileUrls(tx: Prisma.TransactionClient, ids: string[]): Promise<string[]> {
+  const [assets, versions] = await Promise.all([
+    tx.asset.findMany({ where: { id: { in: ids } }, select: ASSET_FILES_SELECT }),
+    tx.assetVersion.findMany({ where: { assetId: { in: ids } }, select: { url: true } }),
+  ])
+  return [...new Set([
+    ...assets.flatMap(asset => [asset.url, ...assetMediaUrls(asset)]),
+    ...versions.map(version => version.url),
+  ])]
+}
+
+async function findReferencedUrls(urls?: string[]): Promise<Set<string>> {
+  const where = urls ? { url: { in: urls } } : {}
+  const assetWhere: Prisma.AssetWhereInput = urls
+    ? {
+        OR: [
+          { url: { in: urls } },
+          { thumbnailUrl: { in: urls } },
+          { thumbnailSmallUrl: { in: urls } },
+          { posterUrl: { in: urls } },
+        ],
+      }
+    : {}
+  const [assets, versions, jobs] = await Promise.all([
+    prisma.asset.findMany({ where: assetWhere, select: ASSET_FILES_SELECT }),
+    prisma.assetVersion.findMany({ where, select: { url: true } }),
+    // Exports past their retention period no longer hold on to their file
+    prisma.renderJob.findMany({
+      where: { outputUrl: urls ? { in: urls } : { not: null }, completedAt: { gte: exportCutoff() } },
+      select: { outputUrl: true },
+    }),
+  ])
+
+  return new Set([
+    ...assets.flatMap(asset => [asset.url, ...assetMediaUrls(asset)]),
+    ...versions.map(version => version.url),
+    ...jobs.flatMap(job => job.outputUrl ?? []),
+  ])
+}
+
+/**
+ * Remove stored files that no asset, version or render job points at any more
+ * Call after the rows are deleted. Failures are logged rather than thrown, since
+ * the rows are already gone and a later scan will find the files
+ */
+export async function removeUnusedFiles(urls: string[]): Promise<void> {
+  if (urls.length === 0) return
+
+  const referenced = await findReferencedUrls(urls)
+  for (const url of urls) {
+    if (referenced.has(url)) continue
+    await deleteUpload(url).catch(error => {
+      console.error(`Failed to remove stored file ${url}:`, error)
+    })
+  }
+}
+
+/**
+ * Delete render jobs whose export is past its retention period, with their files
+ */
+export async function expireRenderJobs(): Promise<number> {
+  const expired = await prisma.renderJob.findMany({
+    where: { outputUrl: { not: null }, completedAt: { lt: exportCutoff() } },
+    select: { id: true, outputUrl: true },
+  })
+  if (expired.length === 0) return 0
+
+  await prisma.renderJob.deleteMany({ where: { id: { in: expired.map(job => job.id) } } })
+  await removeUnusedFiles(expired.flatMap(job => job.outputUrl ?? []))
+  return expired.length
+}
+
+/**
+ * Compare the configured storage with the database, reporting files nothing points
+ * at and assets whose file can't be found
+ */
+export async function scanStorage(): Promise<StorageScan> {
+  const storage = getStorage()
+  const referenced = await findReferencedUrls()
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD
+
+  const stored = new Set<string>()
+  const orphans: StorageScan['orphans'] = []
+  for await (const file of storage.list()) {
+    stored.add(file.url)
+    if (!referenced.has(file.url) && file.modifiedAt.getTime() < cutoff) {
+      orphans.push(file)
+    }
+  }
+
+  const assets = await prisma.asset.findMany({
+    select: { id: true, name: true, url: true },
+    orderBy: { name: 'asc' },
+  })
+
+  const missing: StorageScan['missing'] = []
+  for (const asset of assets) {
+    if (storage.owns(asset.url)) {
+      if (!stored.has(asset.url)) missing.push(asset)
+      continue
+    }
+
+    // Files kept from a previous driver, URLs from elsewhere can't be checked
+    const driver = getStorageFor(asset.url)
+    if (driver && !(await driver.exists(asset.url))) missing.push(asset)
+  }
+
+  return { driver: storage.name, scannedFiles: stored.size, orphans, missing }
+}
+
+/**
+ * Remove the orphaned files and delete the assets with missing files found by a scan
+ */
+export async function fixStorage(
+  scan: StorageScan,
+  options: { orphans: boolean; missing: boolean }
+): Promise<StorageFixResult> {
+  let removedFiles = 0
+  let deletedAssets = 0
+
+  if (options.orphans) {
+    await expireRenderJobs()
+
+    // Recheck in case something started using a file since the scan
+    const referenced = await findReferencedUrls(scan.orphans.map(file => file.url))
+    for (const file of scan.orphans) {
+      if (referenced.has(file.url)) continue
+      await deleteUpload(file.url)
+      removedFiles++
+    }
+  }
+
+  if (options.missing && scan.missing.length > 0) {
+    const ids = scan.missing.map(asset => asset.id)
+    const urls = await assetFileUrls(prisma, ids)
+    deletedAssets = await prisma.$transaction(tx => deleteAssets(tx, ids), BATCH_TRANSACTION_OPTIONS)
+    // Versions of the deleted assets may still have their files
+    await removeUnusedFiles(urls)
+  }
+
+  return { removedFiles, deletedAssets }
+}
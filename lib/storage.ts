@@ -0,0 +1,312 @@
+/**
+ * Storage drivers for uploaded and generated files
+ * STORAGE_DRIVER picks one of local, s3 or vercel-blob. Without it, Vercel Blob is
+ * used in production when a token is set, and public/uploads everywhere else
+ */
+
+import { put, del, head, list, BlobNotFoundError } from '@vercel/blob'
+import { AwsClient } from 'aws4fetch'
+import { writeFile, readFile, mkdir, unlink, readdir, stat } from 'fs/promises'
+import { join, resolve, sep } from 'path'
+
+export type StorageDriverName = 'local' | 's3' | 'vercel-blob'
+
+export interface StoredFile {
+  url: string
+  size: number
+  modifiedAt: Date
+}
+
+export interface StorageDriver {
+  name: StorageDriverName
+  /** Store the data under the key and return the URL it's served from */
+  save(key: string, data: Buffer, contentType: string): Promise<string>
+  read(url: string): Promise<Buffer>
+  /** Remove a stored file, doing nothing if it's already gone */
+  remove(url: string): Promise<void>
+  /** Whether the URL points at a file this driver stored */
+  owns(url: string): boolean
+  exists(url: string): Promise<boolean>
+  /** Every stored file */
+  list(): AsyncIterable<StoredFile>
+}
+
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageConfigError'
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+}
+
+export function contentTypeFor(key: string): string {
+  const extension = key.split('.').pop()?.toLowerCase() || ''
+  return CONTENT_TYPES[extension] || 'application/octet-stream'
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new StorageConfigError(`${name} must be set to use the configured storage driver`)
+  }
+  return value
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Keys are plain file names. Anything that could climb out of the uploads folder or
+ * bucket, like `../package.json` or its percent-encoded form, is refused
+ */
+export function isValidKey(key: string): boolean {
+  return key.length > 0 && !/[/\\%]/.test(key) && !key.includes('..')
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * Files under public/uploads, served by Next.js from /uploads
+ */
+export function createLocalDriver(dir = join(process.cwd(), 'public', 'uploads')): StorageDriver {
+  const root = resolve(dir)
+  const pathForKey = (key: string) => {
+    const filePath = resolve(root, key)
+    if (!isValidKey(key) || !filePath.startsWith(root + sep)) {
+      throw new Error(`Invalid upload key: ${key}`)
+    }
+    return filePath
+  }
+  const pathFor = (url: string) => pathForKey(url.slice('/uploads/'.length))
+
+  return {
+    name: 'local',
+    async save(key, data) {
+      const filePath = pathForKey(key)
+      await mkdir(root, { recursive: true })
+      await writeFile(filePath, data)
+      return `/uploads/${key}`
+    },
+    read(url) {
+      return readFile(pathFor(url))
+    },
+    async remove(url) {
+      await unlink(pathFor(url)).catch(error => {
+        if (!isMissing(error)) throw error
+      })
+    },
+    owns(url) {
+      return url.startsWith('/uploads/') && isValidKey(url.slice('/uploads/'.length))
+    },
+    async exists(url) {
+      return stat(pathFor(url)).then(() => true, error => {
+        if (isMissing(error)) return false
+        throw error
+      })
+    },
+    async *list() {
+      const names = await readdir(dir).catch(error => {
+        if (isMissing(error)) return []
+        throw error
+      })
+      for (const name of names) {
+        if (name.startsWith('.')) continue
+        const info = await stat(join(dir, name))
+        if (info.isFile()) yield { url: `/uploads/${name}`, size: info.size, modifiedAt: info.mtime }
+      }
+    },
+  }
+}
+
+/**
+ * Any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO), addressed path-style
+ * Objects must be publicly readable at S3_PUBLIC_URL, which defaults to the bucket's own URL
+ */
+export function createS3Driver(): StorageDriver {
+  const bucket = requireEnv('S3_BUCKET')
+  const region = process.env.S3_REGION || 'us-east-1'
+  const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '')
+  const publicUrl = (process.env.S3_PUBLIC_URL || `${endpoint}/${bucket}`).replace(/\/+$/, '')
+
+  const client = new AwsClient({
+    accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+    secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+    service: 's3',
+    region,
+  })
+
+  const keyFor = (url: string) => url.slice(publicUrl.length + 1)
+  const objectUrl = (url: string) => {
+    // fetch would resolve `..` segments into another bucket
+    if (!isValidKey(keyFor(url))) throw new Error(`Invalid storage key in ${url}`)
+    return `${endpoint}/${bucket}/${keyFor(url)}`
+  }
+
+  return {
+    name: 's3',
+    async save(key, data, contentType) {
+      if (!isValidKey(key)) throw new Error(`Invalid storage key: ${key}`)
+      const response = await client.fetch(`${endpoint}/${bucket}/${key}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        body: new Uint8Array(data),
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to store ${key}: ${response.status} ${response.statusText}`)
+      }
+      return `${publicUrl}/${key}`
+    },
+    async read(url) {
+      const response = await client.fetch(objectUrl(url))
+      if (!response.ok) {
+        throw new Error(`Failed to read ${url}: ${response.status} ${response.statusText}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    },
+    async remove(url) {
+      // S3 reports success for keys that don't exist
+      const response = await client.fetch(objectUrl(url), { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`Failed to delete ${url}: ${response.status} ${response.statusText}`)
+      }
+    },
+    owns(url) {
+      return url.startsWith(`${publicUrl}/`) && isValidKey(keyFor(url))
+    },
+    async exists(url) {
+      const response = await client.fetch(objectUrl(url), { method: 'HEAD' })
+      if (response.status === 404) return false
+      if (!response.ok) {
+        throw new Error(`Failed to check ${url}: ${response.status} ${response.statusText}`)
+      }
+      return true
+    },
+    async *list() {
+      let token: string | undefined
+      do {
+        const params = new URLSearchParams({ 'list-type': '2' })
+        if (token) params.set('continuation-token', token)
+
+        const response = await client.fetch(`${endpoint}/${bucket}?${params}`)
+        if (!response.ok) {
+          throw new Error(`Failed to list ${bucket}: ${response.status} ${response.statusText}`)
+        }
+
+        const xml = await response.text()
+        for (const [, object] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+          const field = (name: string) => object.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1] || ''
+          yield {
+            url: `${publicUrl}/${decodeXml(field('Key'))}`,
+            size: Number(field('Size')),
+            modifiedAt: new Date(field('LastModified')),
+          }
+        }
+        const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1]
+        token = next && decodeXml(next)
+      } while (token)
+    },
+  }
+}
+
+/**
+ * Vercel Blob, authenticated with BLOB_READ_WRITE_TOKEN
+ */
+export function createVercelBlobDriver(): StorageDriver {
+  requireEnv('BLOB_READ_WRITE_TOKEN')
+
+  return {
+    name: 'vercel-blob',
+    async save(key, data, contentType) {
+      const blob = await put(key, data, { access: 'public', contentType })
+      return blob.url
+    },
+    async read(url) {
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Failed to read ${url}: ${response.statusText}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    },
+    async remove(url) {
+      await del(url)
+    },
+    owns(url) {
+      return /^https:\/\/[^/]+\.blob\.vercel-storage\.com\//.test(url)
+    },
+    async exists(url) {
+      return head(url).then(() => true, error => {
+        if (error instanceof BlobNotFoundError) return false
+        throw error
+      })
+    },
+    async *list() {
+      let cursor: string | undefined
+      do {
+        const page = await list({ cursor, limit: 1000 })
+        for (const blob of page.blobs) {
+          yield { url: blob.url, size: blob.size, modifiedAt: blob.uploadedAt }
+        }
+        cursor = page.hasMore ? page.cursor : undefined
+      } while (cursor)
+    },
+  }
+}
+
+function configuredDriverName(): StorageDriverName {
+  const name = process.env.STORAGE_DRIVER
+  if (name) {
+    if (name !== 'local' && name !== 's3' && name !== 'vercel-blob') {
+      throw new StorageConfigError(`Unknown STORAGE_DRIVER "${name}", expected local, s3 or vercel-blob`)
+    }
+    return name
+  }
+
+  const isProduction = process.env.VERCEL === '1' || process.env.NODE_ENV === 'production'
+  return isProduction && process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local'
+}
+
+let storage: StorageDriver | undefined
+
+/**
+ * The driver new files are written to
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    const name = configuredDriverName()
+    storage = name === 's3' ? createS3Driver()
+      : name === 'vercel-blob' ? createVercelBlobDriver()
+      : createLocalDriver()
+  }
+  return storage
+}
+
+/**
+ * The driver holding the file at a URL, which may not be the configured one for
+ * files stored before switching drivers. Null for URLs no driver here stored
+ */
+export function getStorageFor(url: string): StorageDriver | null {
+  const current = getStorage()
+  if (current.owns(url)) return current
+
+  const local = current.name === 'local' ? current : createLocalDriver()
+  return local.owns(url) ? local : null
+}
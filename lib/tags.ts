@@ -0,0 +1,50 @@
+/**
+ * Asset tag helpers shared by the asset routes and the tag inputs
+ * Tags are matched by normalized name, so "Black  Friday" and "black friday"
+ * are the same tag
+ */
+
+import type { Prisma } from '@prisma/client'
+
+export type TagMode = 'all' | 'any'
+
+export const MAX_TAG_LENGTH = 50
+
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Read a tag list from a request: an array of names or a comma separated string
+ * Blank and duplicate names are dropped
+ */
+export function parseTagList(input: unknown): string[] {
+  const names = Array.isArray(input)
+    ? input.filter((name): name is string => typeof name === 'string')
+    : typeof input === 'string'
+    ? input.split(',')
+    : []
+
+  return [...new Set(names.map(normalizeTagName).filter(Boolean))]
+}
+
+/**
+ * Prisma input that links an asset to the named tags, creating missing ones
+ */
+export function connectTags(names: string[]) {
+  return names.map(name => ({
+    where: { name },
+    create: { name },
+  }))
+}
+
+/**
+ * Asset filter for assets carrying all (or any) of the named tags
+ */
+export function tagFilter(names: string[], mode: TagMode): Prisma.AssetWhereInput {
+  if (names.length === 0) return {}
+  if (mode === 'any') {
+    return { tags: { some: { name: { in: names } } } }
+  }
+  return { AND: names.map(name => ({ tags: { some: { name } } })) }
+}
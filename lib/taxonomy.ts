@@ -0,0 +1,137 @@
+/**
+ * Managed taxonomy for asset OEMs, screen types and asset types
+ * Terms live in the TaxonomyTerm table; assets keep the term value as a plain
+ * string, so renaming or merging a term rewrites the matching assets
+ */
+
+import type { Prisma, TaxonomyTerm } from '@prisma/client'
+
+export const TAXONOMY_KINDS = ['oem', 'screenType', 'assetType'] as const
+
+export type TaxonomyKind = typeof TAXONOMY_KINDS[number]
+
+export type Taxonomy = Record<TaxonomyKind, string[]>
+
+export const TAXONOMY_LABELS: Record<TaxonomyKind, { singular: string; plural: string; all: string }> = {
+  oem: { singular: 'OEM', plural: 'OEMs', all: 'All OEMs' },
+  screenType: { singular: 'Screen Type', plural: 'Screen Types', all: 'All Types' },
+  assetType: { singular: 'Asset Type', plural: 'Asset Types', all: 'All Assets' },
+}
+
+// Seeded the first time the taxonomy is loaded, these were the built-in options
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  oem: ['Xiaomi', 'Realme', 'Motorola', 'Samsung', 'OnePlus', 'OPPO', 'Vivo', 'Other'],
+  screenType: [
+    'Lockscreen',
+    'Post-click',
+    'Game',
+    'Home Screen',
+    'Settings',
+    'Notification',
+    'Carousel',
+    'Video Page',
+    'Hub',
+    'Story Page',
+    'Other',
+  ],
+  assetType: ['Mockup', 'Live Experience'],
+}
+
+export function isTaxonomyKind(value: unknown): value is TaxonomyKind {
+  return typeof value === 'string' && (TAXONOMY_KINDS as readonly string[]).includes(value)
+}
+
+/**
+ * Group terms by kind, keeping their order
+ */
+export function groupTaxonomy(terms: Array<Pick<TaxonomyTerm, 'kind' | 'value'>>): Taxonomy {
+  const taxonomy: Taxonomy = { oem: [], screenType: [], assetType: [] }
+  for (const term of terms) {
+    if (isTaxonomyKind(term.kind)) {
+      taxonomy[term.kind].push(term.value)
+    }
+  }
+  return taxonomy
+}
+
+/**
+ * Count how many assets use each value of a kind
+ */
+export async function countTermUsage(
+  tx: Prisma.TransactionClient,
+  kind: TaxonomyKind
+): Promise<Map<string, number>> {
+  const groups = await tx.asset.groupBy({
+    by: [kind],
+    _count: { _all: true },
+  })
+  return new Map(groups.map(group => [group[kind] as string, group._count._all]))
+}
+
+/**
+ * Bring the taxonomy in line with the assets
+ * Kinds without terms get the default terms, and every value an asset uses
+ * that is not a term yet is added after the existing terms
+ */
+export async function syncTaxonomyFromAssets(tx: Prisma.TransactionClient): Promise<number> {
+  let added = 0
+
+  for (const kind of TAXONOMY_KINDS) {
+    const existing = await tx.taxonomyTerm.findMany({
+      where: { kind },
+      orderBy: { order: 'asc' },
+    })
+    const known = new Set(existing.map(term => term.value))
+
+    const usage = await countTermUsage(tx, kind)
+    const candidates = [
+      ...(existing.length === 0 ? DEFAULT_TAXONOMY[kind] : []),
+      ...[...usage.keys()].sort(),
+    ]
+
+    const values = [...new Set(candidates)].filter(value => value && !known.has(value))
+    const start = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0
+
+    // Another request may be syncing at the same time, e.g. two first loads of the
+    // taxonomy, so terms it added meanwhile are skipped rather than failing
+    const { count } = await tx.taxonomyTerm.createMany({
+      data: values.map((value, index) => ({ kind, value, order: start + index })),
+      skipDuplicates: true,
+    })
+    added += count
+  }
+
+  return added
+}
+
+/**
+ * Rename a term and every asset that uses it
+ * Renaming to another existing term of the same kind merges the two: the
+ * assets move to that term and this term is removed
+ */
+export async function renameTaxonomyTerm(
+  tx: Prisma.TransactionClient,
+  term: TaxonomyTerm,
+  value: string
+): Promise<{ term: TaxonomyTerm; merged: boolean; assetsUpdated: number }> {
+  const kind = term.kind as TaxonomyKind
+  const target = await tx.taxonomyTerm.findUnique({
+    where: { kind_value: { kind, value } },
+  })
+
+  const { count: assetsUpdated } = await tx.asset.updateMany({
+    where: { [kind]: term.value },
+    data: { [kind]: value },
+  })
+
+  if (target && target.id !== term.id) {
+    await tx.taxonomyTerm.delete({ where: { id: term.id } })
+    return { term: target, merged: true, assetsUpdated }
+  }
+
+  const renamed = await tx.taxonomyTerm.update({
+    where: { id: term.id },
+    data: { value },
+  })
+  return { term: renamed, merged: false, assetsUpdated }
+}
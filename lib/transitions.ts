@@ -0,0 +1,51 @@
+/**
+ * Frame transitions
+ * Shared by the flow API, the video renderer and the flow viewer, so this
+ * module must stay free of server-only imports
+ */
+
+export type FrameTransition = 'cut' | 'fade' | 'slow_fade' | 'slide'
+
+export const FRAME_TRANSITIONS: FrameTransition[] = ['cut', 'fade', 'slow_fade', 'slide']
+
+// Default length of each transition in milliseconds
+export const DEFAULT_TRANSITION_DURATIONS: Record<FrameTransition, number> = {
+  cut: 0,
+  fade: 500,
+  slow_fade: 1000,
+  slide: 500,
+}
+
+export const MAX_TRANSITION_DURATION = 5000
+
+export const TRANSITION_OPTIONS: { value: FrameTransition; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slow_fade', label: 'Slow fade' },
+  { value: 'slide', label: 'Slide' },
+]
+
+export function isFrameTransition(value: unknown): value is FrameTransition {
+  return typeof value === 'string' && FRAME_TRANSITIONS.includes(value as FrameTransition)
+}
+
+/**
+ * Validate a transition from user input, falling back to a cut
+ * A missing duration uses the transition's default, a cut always takes 0ms
+ */
+export function normalizeTransition(
+  transition: unknown,
+  duration?: unknown
+): { transition: FrameTransition; transitionDuration: number } {
+  const type = isFrameTransition(transition) ? transition : 'cut'
+  if (type === 'cut') {
+    return { transition: type, transitionDuration: 0 }
+  }
+
+  const requested = Number(duration)
+  const transitionDuration = Number.isFinite(requested) && requested > 0
+    ? Math.min(Math.round(requested), MAX_TRANSITION_DURATION)
+    : DEFAULT_TRANSITION_DURATIONS[type]
+
+  return { transition: type, transitionDuration }
+}
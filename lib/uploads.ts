@@ -0,0 +1,92 @@
+/**
+ * Upload storage helpers shared by every route that stores, reads or removes files
+ * Where files go is up to the configured storage driver, see lib/storage.ts
+ */
+
+import { createHash } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { getStorage, getStorageFor, contentTypeFor } from './storage'
+
+// Hosts Figma serves exported images from, the only outside URLs read directly
+const FIGMA_IMAGE_HOSTS = [
+  /^figma-alpha-api\.s3\.[a-z0-9-]+\.amazonaws\.com$/,
+  /^s3-alpha(-sig)?\.figma\.com$/,
+]
+
+export interface StoredUpload {
+  url: string
+  storedName: string
+  contentHash: string
+}
+
+/**
+ * SHA-256 of file contents as hex, the same for identical files whatever their name
+ */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Store file contents under a unique name and return its public URL
+ */
+export async function saveUpload(
+  data: Buffer | Blob,
+  extension: string
+): Promise<StoredUpload> {
+  const storedName = `${uuidv4()}.${extension}`
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(await data.arrayBuffer())
+
+  const url = await getStorage().save(storedName, buffer, contentTypeFor(storedName))
+  return { url, storedName, contentHash: hashContent(buffer) }
+}
+
+/**
+ * Hash the file at the URL if it was uploaded to the configured storage, null otherwise
+ * Assets may only be created for such URLs, since deleting them removes the file, and
+ * their hash is taken from the stored file rather than trusted from the client
+ */
+export async function hashStoredUpload(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string') return null
+  const storage = getStorage()
+  if (!storage.owns(url) || !(await storage.exists(url))) return null
+  return hashContent(await storage.read(url))
+}
+
+/**
+ * Whether the URL is a Figma image export link, which assets imported before files
+ * were copied into storage still point at
+ */
+export function isFigmaImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    return protocol === 'https:' && FIGMA_IMAGE_HOSTS.some(host => host.test(hostname))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read the contents of a previously stored upload
+ * Figma image links are fetched directly, any other URL from outside storage is refused
+ */
+export async function readUpload(url: string): Promise<Buffer> {
+  const driver = getStorageFor(url)
+  if (driver) return driver.read(url)
+
+  if (!isFigmaImageUrl(url)) {
+    throw new Error(`Not a stored upload: ${url}`)
+  }
+  // A redirect could lead anywhere
+  const response = await fetch(url, { redirect: 'error' })
+  if (!response.ok) {
+    throw new Error(`Failed to read upload: ${response.statusText}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Remove a stored upload, leaving URLs from outside storage alone
+ */
+export async function deleteUpload(url: string): Promise<void> {
+  await getStorageFor(url)?.remove(url)
+}
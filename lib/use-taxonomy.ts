@@ -0,0 +1,57 @@
+'use client'
+
+/**
+ * Shared client hook for the managed taxonomy
+ * Every form and filter reads the same cached copy, refreshed after edits on
+ * the taxonomy settings page
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Taxonomy } from './taxonomy'
+
+const EMPTY_TAXONOMY: Taxonomy = { oem: [], screenType: [], assetType: [] }
+
+let cached: Taxonomy | null = null
+let pending: Promise<Taxonomy> | null = null
+const listeners = new Set<(taxonomy: Taxonomy) => void>()
+
+async function loadTaxonomy(force = false): Promise<Taxonomy> {
+  if (cached && !force) return cached
+  if (pending && !force) return pending
+
+  pending = fetch('/api/taxonomy')
+    .then(res => {
+      if (!res.ok) throw new Error('Failed to fetch taxonomy')
+      return res.json()
+    })
+    .then(data => {
+      cached = data.taxonomy as Taxonomy
+      listeners.forEach(listener => listener(cached!))
+      return cached
+    })
+    .finally(() => {
+      pending = null
+    })
+
+  return pending
+}
+
+export function useTaxonomy() {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(cached || EMPTY_TAXONOMY)
+  const [loading, setLoading] = useState(!cached)
+
+  useEffect(() => {
+    listeners.add(setTaxonomy)
+    loadTaxonomy()
+      .catch(err => console.error('Failed to load taxonomy:', err))
+      .finally(() => setLoading(false))
+
+    return () => {
+      listeners.delete(setTaxonomy)
+    }
+  }, [])
+
+  const refresh = useCallback(() => loadTaxonomy(true), [])
+
+  return { taxonomy, loading, refresh }
+}
@@ -0,0 +1,273 @@
+/**
+ * FFmpeg video renderer
+ * Composes a sequence of images and video clips into a single MP4, WebM or GIF with transitions
+ */
+
+import { spawn } from 'child_process'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { DEFAULT_TRANSITION_DURATIONS, FrameTransition } from './transitions'
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe'
+
+export type VideoTransition = FrameTransition
+
+// FFmpeg xfade effect for each transition
+const XFADE_EFFECTS: Record<VideoTransition, string | null> = {
+  cut: null,
+  fade: 'fade',
+  slow_fade: 'fade',
+  slide: 'slideleft',
+}
+
+export type VideoFormat = 'mp4' | 'webm' | 'gif'
+
+// Encoder arguments and MIME type for each output format
+export const VIDEO_FORMATS: Record<VideoFormat, { encoderArgs: string[]; contentType: string }> = {
+  mp4: {
+    encoderArgs: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p', '-movflags', '+faststart'],
+    contentType: 'video/mp4',
+  },
+  webm: {
+    encoderArgs: ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '33', '-deadline', 'realtime', '-cpu-used', '8', '-pix_fmt', 'yuv420p'],
+    contentType: 'video/webm',
+  },
+  gif: {
+    encoderArgs: ['-loop', '0'],
+    contentType: 'image/gif',
+  },
+}
+
+export interface VideoSegment {
+  path: string;
+  duration: number; // seconds
+  transition: VideoTransition; // transition to the NEXT segment
+  transitionDuration?: number; // seconds, defaults to the transition's standard length
+  isVideo?: boolean; // clip instead of a still image
+}
+
+export interface RenderOptions {
+  format?: VideoFormat;
+  width?: number;
+  height?: number;
+  maxWidth?: number; // scale the output down to this width, keeping the aspect ratio
+  fps?: number;
+  onProgress?: (fraction: number) => void; // 0-1, based on encoded output time
+}
+
+export class FfmpegUnavailableError extends Error {
+  constructor() {
+    super('Video generation requires FFmpeg, which is not installed on this server.');
+    this.name = 'FfmpegUnavailableError';
+  }
+}
+
+function runProcess(
+  command: string,
+  args: string[],
+  onStdout?: (chunk: string) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args)
+    let stdout = ''
+    let stderr = ''
+
+    child.stdout.on('data', (chunk) => {
+      if (onStdout) {
+        onStdout(String(chunk))
+      } else {
+        stdout += chunk
+      }
+    })
+    child.stderr.on('data', (chunk) => {
+      // Keep only the tail - FFmpeg is very chatty
+      stderr = (stderr + chunk).slice(-4000)
+    })
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      reject(err.code === 'ENOENT' ? new FfmpegUnavailableError() : err)
+    })
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout)
+      } else {
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`))
+      }
+    })
+  })
+}
+
+/**
+ * Check whether the FFmpeg binary can be executed
+ */
+export async function isFfmpegAvailable(): Promise<boolean> {
+  try {
+    await runProcess(FFMPEG_PATH, ['-version'])
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read the pixel dimensions of an image or video file
+ */
+export async function probeDimensions(filePath: string): Promise<{ width: number; height: number }> {
+  const output = await runProcess(FFPROBE_PATH, [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height',
+    '-of', 'csv=p=0:s=x',
+    filePath,
+  ])
+  const [width, height] = output.trim().split('x').map(Number)
+  if (!width || !height) {
+    throw new Error(`Could not read dimensions of ${path.basename(filePath)}`)
+  }
+  return { width, height }
+}
+
+/**
+ * Save a representative frame of a video as a PNG, skipping black or blank opening frames
+ */
+export async function extractPosterFrame(videoPath: string, outputPath: string): Promise<void> {
+  await runProcess(FFMPEG_PATH, [
+    '-y',
+    '-i', videoPath,
+    '-vf', 'thumbnail',
+    '-frames:v', '1',
+    outputPath,
+  ])
+}
+
+// H.264 with yuv420p needs even dimensions
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2)
+
+/**
+ * Build the filter graph that normalizes every input and chains the transitions
+ * Also returns the total output length in seconds
+ */
+function buildFilterGraph(
+  segments: VideoSegment[],
+  width: number,
+  height: number,
+  fps: number,
+  format: VideoFormat
+): { graph: string; length: number } {
+  const filters: string[] = []
+
+  segments.forEach((segment, i) => {
+    filters.push(
+      `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${fps},format=yuv420p,` +
+      `tpad=stop_mode=clone:stop_duration=${segment.duration},trim=duration=${segment.duration},` +
+      `setpts=PTS-STARTPTS,settb=AVTB[v${i}]`
+    )
+  })
+
+  // GIFs get a generated palette, everything else is mapped straight from the chain
+  const chainOutput = format === 'gif' ? 'chain' : 'out'
+  if (format === 'gif') {
+    filters.push('[chain]split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=sierra2_4a[out]')
+  }
+
+  if (segments.length === 1) {
+    filters.push(`[v0]null[${chainOutput}]`)
+    return { graph: filters.join(';'), length: segments[0].duration }
+  }
+
+  let current = 'v0'
+  let length = segments[0].duration
+
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1]
+    const next = segments[i]
+    const xfade = XFADE_EFFECTS[previous.transition] || null
+    const requested = previous.transitionDuration ?? (DEFAULT_TRANSITION_DURATIONS[previous.transition] || 0) / 1000
+    // A transition can never be longer than half of either segment
+    const duration = Math.min(requested, previous.duration / 2, next.duration / 2)
+    const output = i === segments.length - 1 ? chainOutput : `x${i}`
+
+    if (!xfade || duration <= 0) {
+      filters.push(`[${current}][v${i}]concat=n=2:v=1:a=0[${output}]`)
+      length += next.duration
+    } else {
+      const offset = (length - duration).toFixed(3)
+      filters.push(`[${current}][v${i}]xfade=transition=${xfade}:duration=${duration}:offset=${offset}[${output}]`)
+      length += next.duration - duration
+    }
+
+    current = output
+  }
+
+  return { graph: filters.join(';'), length }
+}
+
+/**
+ * Render a sequence of images and clips into a video (MP4 by default)
+ * Output size defaults to the dimensions of the first segment
+ */
+export async function renderVideo(
+  segments: VideoSegment[],
+  options: RenderOptions = {}
+): Promise<Buffer> {
+  if (segments.length === 0) {
+    throw new Error('At least one segment is required to render a video')
+  }
+
+  const format = options.format || 'mp4'
+  const fps = options.fps || (format === 'gif' ? 15 : 30)
+  let { width, height } = options
+  if (!width || !height) {
+    const dimensions = await probeDimensions(segments[0].path)
+    width = dimensions.width
+    height = dimensions.height
+  }
+  if (options.maxWidth && width > options.maxWidth) {
+    height = (height * options.maxWidth) / width
+    width = options.maxWidth
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'mockups-render-'))
+  const outputPath = path.join(workDir, `output.${format}`)
+
+  try {
+    const inputArgs = segments.flatMap(segment => [
+      // Still images are looped, clips play once and hold their last frame
+      ...(segment.isVideo ? [] : ['-loop', '1', '-framerate', String(fps)]),
+      '-t', String(segment.duration),
+      '-i', segment.path,
+    ])
+
+    const { graph, length } = buildFilterGraph(segments, even(width), even(height), fps, format)
+
+    // FFmpeg reports "out_time_us=<microseconds>" lines on stdout with -progress
+    const handleProgress = options.onProgress
+      ? (chunk: string) => {
+          const matches = [...chunk.matchAll(/out_time_us=(\d+)/g)]
+          const last = matches[matches.length - 1]
+          if (last) {
+            options.onProgress!(Math.min(1, Number(last[1]) / 1_000_000 / length))
+          }
+        }
+      : undefined
+
+    await runProcess(FFMPEG_PATH, [
+      '-y',
+      '-hide_banner',
+      ...(handleProgress ? ['-progress', 'pipe:1', '-nostats'] : []),
+      ...inputArgs,
+      '-filter_complex', graph,
+      '-map', '[out]',
+      ...VIDEO_FORMATS[format].encoderArgs,
+      outputPath,
+    ], handleProgress)
+
+    return await readFile(outputPath)
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Stream a set of assets out as a ZIP package with a manifest.json describing them
+ * Files are read and written one at a time, so large packages never sit in memory whole
+ */
+
+import { Zip, ZipPassThrough, strToU8 } from 'fflate'
+import type { Asset, Tag } from '@prisma/client'
+import { readUpload } from './uploads'
+
+export type ExportAsset = Asset & { tags: Tag[] }
+
+export interface ZipExportEntry {
+  path: string // File name inside the archive
+  asset: ExportAsset
+  frame?: {
+    order: number
+    delay: number
+    transition: string
+    transitionDuration: number
+  }
+}
+
+export interface ZipExportSource {
+  name: string
+  flow?: { id: string; name: string; description: string | null }
+}
+
+// Characters that aren't safe in file names on common systems
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'asset'
+}
+
+/**
+ * Name archive entries after their assets, numbering repeats so none overwrite another
+ * With numbered set, every entry gets its position as a prefix instead, like 01_Lockscreen.png
+ */
+export function nameZipEntries(
+  items: Array<Omit<ZipExportEntry, 'path'>>,
+  numbered = false
+): ZipExportEntry[] {
+  const used = new Set<string>()
+  const digits = Math.max(2, String(items.length).length)
+
+  return items.map((item, index) => {
+    const base = numbered
+      ? `${String(index + 1).padStart(digits, '0')}_${safeFileName(item.asset.name)}`
+      : safeFileName(item.asset.name)
+
+    let path = `${base}.${item.asset.format}`
+    for (let n = 2; used.has(path); n++) {
+      path = `${base} (${n}).${item.asset.format}`
+    }
+    used.add(path)
+
+    return { ...item, path }
+  })
+}
+
+function buildManifest(source: ZipExportSource, entries: ZipExportEntry[]) {
+  return {
+    name: source.name,
+    exportedAt: new Date().toISOString(),
+    flow: source.flow,
+    files: entries.map(({ path, asset, frame }) => ({
+      path,
+      id: asset.id,
+      name: asset.name,
+      description: asset.description,
+      oem: asset.oem,
+      screenType: asset.screenType,
+      assetType: asset.assetType,
+      format: asset.format,
+      size: asset.size,
+      tags: asset.tags.map(tag => tag.name),
+      originalFilename: asset.filename,
+      createdAt: asset.createdAt.toISOString(),
+      frame,
+    })),
+  }
+}
+
+/**
+ * Stream a ZIP holding manifest.json followed by each entry's file, in order
+ */
+export function streamZipExport(
+  source: ZipExportSource,
+  entries: ZipExportEntry[]
+): ReadableStream<Uint8Array> {
+  let zip: Zip
+  let next = 0
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((err, chunk, final) => {
+        if (err) {
+          controller.error(err)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) controller.close()
+      })
+
+      addFile(zip, 'manifest.json', strToU8(JSON.stringify(buildManifest(source, entries), null, 2)))
+    },
+
+    // One file per pull, so reads keep pace with the client downloading
+    async pull() {
+      if (next === entries.length) {
+        zip.end()
+        return
+      }
+
+      const entry = entries[next++]
+      addFile(zip, entry.path, new Uint8Array(await readUpload(entry.asset.url)))
+    },
+
+    cancel() {
+      zip.terminate()
+    },
+  })
+}
+
+// Images and videos are already compressed, so entries are stored as-is
+function addFile(zip: Zip, path: string, data: Uint8Array) {
+  const file = new ZipPassThrough(path)
+  zip.add(file)
+  file.push(data, true)
+}
+
+/**
+ * Content-Disposition header for downloading under the given name
+ */
+export function zipDisposition(name: string): string {
+  const fileName = `${safeFileName(name)}.zip`
+  return `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
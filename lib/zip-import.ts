@@ -0,0 +1,231 @@
+/**
+ * ZIP archive import
+ * Extracts images and videos from a ZIP and creates an asset for each, reading
+ * OEM, screen type and asset type from the folders a file sits in, e.g.
+ * "Samsung/Lockscreen/hero.png" with the default mapping
+ */
+
+import { unzipSync, type UnzipOptions } from 'fflate'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { saveUpload, deleteUpload, hashContent } from './uploads'
+import { startMediaProcessor } from './asset-media'
+import { groupTaxonomy, syncTaxonomyFromAssets, TAXONOMY_KINDS, type TaxonomyKind } from './taxonomy'
+
+export const ZIP_MEDIA_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'mp4', 'webm', 'mov']
+
+// Everything is inflated into memory, so archives are checked against these first
+const MAX_ZIP_FILES = 500
+const MAX_ZIP_FILE_SIZE = 200 * 1024 * 1024 // 200 MB uncompressed
+const MAX_ZIP_TOTAL_SIZE = 1024 * 1024 * 1024 // 1 GB uncompressed
+
+export class ZipTooLargeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipTooLargeError'
+  }
+}
+
+export class InvalidZipError extends Error {
+  constructor() {
+    super('File is not a valid ZIP archive')
+    this.name = 'InvalidZipError'
+  }
+}
+
+// What each folder level means, outermost first; "ignore" skips a level
+export type ZipFolderRole = TaxonomyKind | 'ignore'
+
+export interface ZipImportMapping {
+  folders: ZipFolderRole[]
+  defaults: Partial<Record<TaxonomyKind, string>> // Used when a path has no folder for the field
+}
+
+export const DEFAULT_ZIP_MAPPING: ZipImportMapping = {
+  folders: ['oem', 'screenType'],
+  defaults: { assetType: 'Mockup' },
+}
+
+export interface ZipImportEntryResult {
+  path: string
+  reason: string
+}
+
+export interface ZipImportResult {
+  created: number
+  skipped: ZipImportEntryResult[] // Not media, or already in the library
+  failed: ZipImportEntryResult[] // Media that could not be imported
+}
+
+function isFolderRole(value: unknown): value is ZipFolderRole {
+  return value === 'ignore' || (TAXONOMY_KINDS as readonly unknown[]).includes(value)
+}
+
+/**
+ * Read a mapping from request input, falling back to the default for
+ * anything missing or malformed
+ */
+export function parseZipMapping(input: unknown): ZipImportMapping {
+  if (!input || typeof input !== 'object') return DEFAULT_ZIP_MAPPING
+  const { folders, defaults } = input as Record<string, unknown>
+
+  const mapping: ZipImportMapping = {
+    folders: Array.isArray(folders) ? folders.filter(isFolderRole) : DEFAULT_ZIP_MAPPING.folders,
+    defaults: { ...DEFAULT_ZIP_MAPPING.defaults },
+  }
+
+  if (defaults && typeof defaults === 'object') {
+    for (const kind of TAXONOMY_KINDS) {
+      const value = (defaults as Record<string, unknown>)[kind]
+      if (typeof value === 'string' && value.trim()) mapping.defaults[kind] = value.trim()
+    }
+  }
+
+  return mapping
+}
+
+// Archive metadata and hidden files that zip tools add alongside the real content
+function isJunkPath(path: string): boolean {
+  return path.startsWith('__MACOSX/') || path.split('/').some(segment => segment.startsWith('.'))
+}
+
+function isMediaPath(path: string): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return ZIP_MEDIA_EXTENSIONS.includes(extension)
+}
+
+/**
+ * Unzip with fflate, throwing InvalidZipError if the archive can't be read
+ */
+function unzipArchive(data: Uint8Array, options: UnzipOptions) {
+  try {
+    return unzipSync(data, options)
+  } catch (error) {
+    if (error instanceof ZipTooLargeError) throw error
+    throw new InvalidZipError()
+  }
+}
+
+/**
+ * Read the sizes the archive declares for its media files, without inflating
+ * anything, and throw if importing them would take too much memory
+ * Inflating never produces more than the declared size
+ */
+function checkZipLimits(data: Uint8Array) {
+  let files = 0
+  let totalSize = 0
+
+  unzipArchive(data, {
+    filter: file => {
+      if (file.name.endsWith('/') || isJunkPath(file.name) || !isMediaPath(file.name)) return false
+      if (file.originalSize > MAX_ZIP_FILE_SIZE) {
+        throw new ZipTooLargeError(`${file.name} is larger than ${MAX_ZIP_FILE_SIZE / (1024 * 1024)} MB`)
+      }
+      files++
+      totalSize += file.originalSize
+      return false
+    },
+  })
+
+  if (files > MAX_ZIP_FILES) {
+    throw new ZipTooLargeError(`The archive holds ${files} images and videos, at most ${MAX_ZIP_FILES} can be imported at once`)
+  }
+  if (totalSize > MAX_ZIP_TOTAL_SIZE) {
+    throw new ZipTooLargeError(`The archive's images and videos add up to more than ${MAX_ZIP_TOTAL_SIZE / (1024 * 1024 * 1024)} GB`)
+  }
+}
+
+/**
+ * Import every image and video in the archive as a new asset
+ * Files already in the library (same contents) are skipped. Folder
+ * names are matched to taxonomy values case-insensitively; unknown values are
+ * kept as written and added to the taxonomy. Throws InvalidZipError for
+ * files that aren't ZIP archives and ZipTooLargeError for archives over the size limits
+ */
+export async function importZipArchive(
+  data: Uint8Array,
+  mapping: ZipImportMapping = DEFAULT_ZIP_MAPPING
+): Promise<ZipImportResult> {
+  const result: ZipImportResult = { created: 0, skipped: [], failed: [] }
+  checkZipLimits(data)
+
+  // Only inflate media files, the rest are reported without reading them
+  const entries = unzipArchive(data, {
+    filter: file => {
+      if (file.name.endsWith('/') || isJunkPath(file.name)) return false
+      if (!isMediaPath(file.name)) {
+        result.skipped.push({ path: file.name, reason: 'Not an image or video' })
+        return false
+      }
+      return true
+    },
+  })
+
+  const taxonomy = groupTaxonomy(await prisma.taxonomyTerm.findMany({ orderBy: { order: 'asc' } }))
+  const canonical = (kind: TaxonomyKind, value: string) =>
+    taxonomy[kind].find(term => term.toLowerCase() === value.toLowerCase()) || value
+
+  const existing = await prisma.asset.findMany({ select: { filename: true, size: true, contentHash: true } })
+  const seen = new Set(existing.flatMap(asset => asset.contentHash ?? []))
+  // Assets stored before content hashing can only be matched by name and size
+  const legacy = new Set(existing.filter(asset => !asset.contentHash).map(asset => `${asset.filename}:${asset.size}`))
+
+  const assets: Prisma.AssetCreateManyInput[] = []
+
+  for (const [path, bytes] of Object.entries(entries)) {
+    const segments = path.split('/')
+    const filename = segments.pop() || path
+    const extension = filename.split('.').pop()?.toLowerCase() || 'bin'
+
+    const buffer = Buffer.from(bytes)
+    const contentHash = hashContent(buffer)
+    if (seen.has(contentHash) || legacy.has(`${filename}:${bytes.length}`)) {
+      result.skipped.push({ path, reason: 'Already in the library' })
+      continue
+    }
+
+    const fields: Partial<Record<TaxonomyKind, string>> = { ...mapping.defaults }
+    mapping.folders.forEach((role, level) => {
+      const folder = segments[level]?.trim()
+      if (role !== 'ignore' && folder) fields[role] = canonical(role, folder)
+    })
+
+    const missing = TAXONOMY_KINDS.filter(kind => !fields[kind])
+    if (missing.length > 0) {
+      result.failed.push({ path, reason: `No ${missing.join(', ')} for this path` })
+      continue
+    }
+
+    try {
+      const { url } = await saveUpload(buffer, extension)
+      assets.push({
+        name: filename.replace(/\.[^/.]+$/, ''),
+        filename,
+        url,
+        oem: fields.oem!,
+        screenType: fields.screenType!,
+        assetType: fields.assetType!,
+        format: extension,
+        size: bytes.length,
+        contentHash,
+      })
+      seen.add(contentHash)
+    } catch (error) {
+      console.error(`Error storing ${path}:`, error)
+      result.failed.push({ path, reason: 'Could not store the file' })
+    }
+  }
+
+  if (assets.length > 0) {
+    // Nothing would reference the stored files if the assets aren't created
+    const { count } = await prisma.asset.createMany({ data: assets }).catch(async error => {
+      await Promise.all(assets.map(asset => deleteUpload(asset.url).catch(() => {})))
+      throw error
+    })
+    result.created = count
+    await syncTaxonomyFromAssets(prisma)
+    startMediaProcessor()
+  }
+
+  return result
+}
@@ -1,5 +1,10 @@
 import type { NextConfig } from "next";
 
+// Files in S3-compatible storage outside AWS are served from their own host
+const storageHosts = [process.env.S3_PUBLIC_URL, process.env.S3_ENDPOINT]
+  .filter((url): url is string => Boolean(url))
+  .map(url => new URL(url));
+
 const nextConfig: NextConfig = {
   images: {
     remotePatterns: [
@@ -15,6 +20,11 @@ const nextConfig: NextConfig = {
         protocol: 'https',
         hostname: 's3.*.amazonaws.com',
       },
+      ...storageHosts.map(url => ({
+        protocol: url.protocol === 'http:' ? 'http' as const : 'https' as const,
+        hostname: url.hostname,
+        port: url.port,
+      })),
     ],
   },
 };